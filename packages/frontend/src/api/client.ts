@@ -1,4 +1,15 @@
-import { RoleAssignment, AuthRequest, BatchAuthRequest } from "../types/gazebo";
+import {
+  RoleAssignment,
+  AuthRequest,
+  BatchAuthRequest,
+  ExplainResponse,
+  AllowedActionsRequest,
+  AllowedActionsResponse,
+  FilterRequest,
+  FilterResponse,
+  AccessLookupRequest,
+  AccessLookupResponse,
+} from "../types/gazebo";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
 
@@ -60,15 +71,44 @@ export const api = {
       body: JSON.stringify(req),
     }),
 
+  explainAuthorization: (req: AuthRequest) =>
+    request<ExplainResponse>("/authorize/explain", {
+      method: "POST",
+      body: JSON.stringify(req),
+    }),
+
+  getAllowedActions: (req: AllowedActionsRequest) =>
+    request<AllowedActionsResponse>("/authorize/actions", {
+      method: "POST",
+      body: JSON.stringify(req),
+    }),
+
+  filterResources: (req: FilterRequest) =>
+    request<FilterResponse>("/authorize/filter", {
+      method: "POST",
+      body: JSON.stringify(req),
+    }),
+
+  // Callers without Admin on the resource only see their own entry
+  findUsersWithAccess: (req: AccessLookupRequest, callerId: string) =>
+    request<AccessLookupResponse>("/authorize/access", {
+      method: "POST",
+      headers: { "X-User-Id": callerId },
+      body: JSON.stringify(req),
+    }),
+
   batchCheckAuthorization: (req: BatchAuthRequest) =>
     request<{
       results: Array<{
         request: AuthRequest;
-        decision: string;
-        allowed: boolean;
+        decision?: string;
+        allowed?: boolean;
         determiningPolicies?: Array<{ policyId: string }>;
         errors?: string[];
+        // Set instead of a decision when this item could not be evaluated
+        error?: { code: string; message: string; issues?: Array<{ field: string; message: string }> };
       }>;
+      summary: { total: number; evaluated: number; failed: number };
     }>("/authorize/batch", {
       method: "POST",
       body: JSON.stringify(req),
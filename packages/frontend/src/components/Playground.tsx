@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { api } from "../api/client";
-import { Action, AuthRequest } from "../types/gazebo";
+import { Action, AuthRequest, DecisionExplanation } from "../types/gazebo";
 
 // Mock hierarchy data - mirrors the backend mock data
 // In production, this comes from company-service (DynamoDB) and site-service (OpenSearch)
@@ -101,6 +101,7 @@ interface AuthResult {
   decision: string;
   determiningPolicies?: Array<{ policyId: string }>;
   request: any;
+  explanation?: DecisionExplanation;
 }
 
 export function Playground() {
@@ -216,12 +217,12 @@ export function Playground() {
     logApiCall({
       type: "request",
       timestamp: new Date(),
-      endpoint: "POST /authorize → AVP IsAuthorized",
+      endpoint: "POST /authorize/explain → AVP IsAuthorized",
       data: avpRequestForDisplay,
     });
 
     try {
-      const response = await api.checkAuthorization(request);
+      const response = await api.explainAuthorization(request);
 
       // Log the response
       logApiCall({
@@ -242,60 +243,10 @@ export function Playground() {
     setLoading(false);
   };
 
+  // The server traces the decision through the same hierarchy Cedar evaluated
   const getExplanation = (): string => {
     if (!authResult) return "";
-
-    const user = EXAMPLE_USERS.find((u) => u.id === selectedUser);
-    const site = EXAMPLE_SITES.find((s) => s.id === selectedSite);
-    const siteData = MOCK_HIERARCHY.sites[selectedSite as keyof typeof MOCK_HIERARCHY.sites] as any;
-
-    // Get the site's hierarchy for explanation
-    let siteRegion = null;
-    let siteOrg = null;
-    if (siteData?.regionId) {
-      siteRegion = MOCK_HIERARCHY.regions[siteData.regionId as keyof typeof MOCK_HIERARCHY.regions];
-      siteOrg = MOCK_HIERARCHY.organizations[siteRegion.orgId as keyof typeof MOCK_HIERARCHY.organizations];
-    } else if (siteData?.orgId) {
-      siteOrg = MOCK_HIERARCHY.organizations[siteData.orgId as keyof typeof MOCK_HIERARCHY.organizations];
-    }
-
-    if (authResult.allowed) {
-      if (selectedUser === "admin@cascade.com") {
-        return `ALLOWED: ${user?.name} is a Global Admin with a static policy that permits all actions on all resources. The globalAdmin role bypasses all resource-specific checks.`;
-      }
-      if (projectCreator === selectedUser && (selectedAction === "View" || selectedAction === "Edit")) {
-        return `ALLOWED: The creator-privilege static policy permits users to View and Edit resources they created. Since ${user?.name} created this project, they have access regardless of other role assignments.`;
-      }
-      if (user?.scope === "Region" && siteRegion) {
-        return `ALLOWED: ${user?.name} has a template-linked policy on Region "${siteRegion.name}". Cedar traverses the hierarchy: Project → Site → Region, and finds that "${site?.name}" is in the West Region. The "${selectedAction}" action is within their permitted actions.`;
-      }
-      if (user?.scope === "Organization" && siteOrg) {
-        return `ALLOWED: ${user?.name} has a template-linked policy on Organization "${siteOrg.name}". Cedar traverses: Project → Site → Region → Organization, finding the match. The "${selectedAction}" action is permitted.`;
-      }
-      return `ALLOWED: ${user?.name} has a template-linked policy granting ${user?.permissions}. Since the project "${projectName}" is in ${site?.name}, and ${selectedAction} is within their permitted actions, access is granted.`;
-    } else {
-      // Check if this is a creator trying to do something other than View/Edit
-      if (projectCreator === selectedUser && selectedAction !== "View" && selectedAction !== "Edit") {
-        return `DENIED: ${user?.name} created this resource, but the creator-privilege policy only permits View and Edit actions. ${selectedAction} is not covered by creator privileges — you'd need a separate role assignment for that.`;
-      }
-      if (selectedUser === "nobody@example.com") {
-        return `DENIED: ${user?.name} has no role assignments and is not the creator of this resource. In Cedar/AVP, the default is to deny access when no policy explicitly permits it.`;
-      }
-      // Check if the site is in the user's region/org
-      if (user?.scope === "Region" && siteRegion) {
-        const isInWestRegion = siteData?.regionId === "10";
-        if (!isInWestRegion) {
-          return `DENIED: ${user?.name} has permissions on West Region, but "${site?.name}" is in ${siteRegion.name}. Cedar traverses the hierarchy but finds no match for the user's policy scope.`;
-        }
-      }
-      if (user?.scope === "Organization" && siteOrg) {
-        const isInCascade = siteOrg.id === "1";
-        if (!isInCascade) {
-          return `DENIED: ${user?.name} has permissions on Cascade Energy, but "${site?.name}" belongs to ${siteOrg.name}. The hierarchy doesn't connect to the user's policy scope.`;
-        }
-      }
-      return `DENIED: ${user?.name} does not have the "${selectedAction}" action permitted. Their permissions (${user?.permissions}) don't include this action for this resource.`;
-    }
+    return authResult.explanation?.summary || `${authResult.decision}: no explanation available.`;
   };
 
   return (
@@ -578,6 +529,11 @@ export function Playground() {
                 >
                   <div style={{ fontWeight: "bold", marginBottom: "8px" }}>Why this result?</div>
                   <div>{getExplanation()}</div>
+                  {authResult.explanation?.hierarchy.path && (
+                    <div style={{ marginTop: "8px", fontSize: "13px", color: "#666" }}>
+                      Hierarchy: {authResult.explanation.hierarchy.path}
+                    </div>
+                  )}
                 </div>
 
                 {/* API Calls */}
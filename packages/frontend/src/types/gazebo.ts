@@ -34,6 +34,14 @@ export interface ResourceParents {
   client?: string;         // For Program
 }
 
+// Cedar `context` for a request (see RequestContext in schema.json)
+export interface RequestContext {
+  requestTime?: string;        // ISO 8601; defaults to the current minute
+  sourceIp?: string;           // defaults to the caller's address
+  mfaAuthenticated?: boolean;  // taken from the token when there is one
+  clientApp?: string;
+}
+
 export interface AuthRequest {
   userId: string;
   action: Action;
@@ -43,6 +51,7 @@ export interface AuthRequest {
   resourceParentSite?: string;  // Legacy: kept for backwards compatibility
   resourceParents?: ResourceParents;  // New: flexible parent specification
   userRoles?: Role[];
+  context?: RequestContext;
 }
 
 export interface AuthResponse {
@@ -53,6 +62,110 @@ export interface AuthResponse {
   request: AuthRequest;
 }
 
+export interface EntityRef {
+  entityType: string;
+  entityId: string;
+}
+
+export interface PolicyDescription {
+  policyId: string;
+  policyType: "static" | "template-linked";
+  statement: string;
+  description?: string;
+  templateName?: string;
+  principal?: EntityRef;
+  resource?: EntityRef;
+}
+
+export interface DecisionExplanation {
+  summary: string;
+  hierarchy: {
+    path: string;
+    paths: Array<Array<EntityRef & { name?: string }>>;
+  };
+  policies: PolicyDescription[];
+  nearestAssignments?: Array<{
+    policyId: string;
+    templateName?: string;
+    resource: EntityRef;
+    distance: number;
+    grants: Action[];
+    lacks: Action;
+  }>;
+  requiredLevel?: string;
+}
+
+export interface ExplainResponse extends AuthResponse {
+  explanation: DecisionExplanation;
+}
+
+export type AllowedActionsRequest = Omit<AuthRequest, "action">;
+
+export interface AllowedActionsResponse {
+  allowedActions: Action[];
+  actions: Array<{
+    action: Action;
+    decision: string;
+    allowed: boolean;
+    determiningPolicies?: Array<{ policyId: string }>;
+    errors?: string[];
+  }>;
+  request: AllowedActionsRequest;
+}
+
+export interface FilterRequest {
+  userId: string;
+  action: Action;
+  resourceType: ResourceType;
+  resources: Array<{
+    resourceId: string;
+    resourceCreatedBy?: string;
+    resourceParentSite?: string;
+    resourceParents?: ResourceParents;
+  }>;
+  context?: RequestContext;
+}
+
+export interface FilterResponse {
+  permitted: string[];
+  failed: Array<{
+    resourceId: string;
+    error: { code: string; message: string; issues?: Array<{ field: string; message: string }> };
+  }>;
+  summary: { total: number; permitted: number; denied: number; failed: number; hierarchyLookups: number };
+}
+
+export type AccessLookupRequest = Omit<AuthRequest, "userId" | "action" | "userRoles"> & { action?: Action };
+
+export interface AccessGrant {
+  policyId: string;
+  level: string;
+  resource: EntityRef;
+  distance: number;
+  actions: Action[];
+}
+
+export interface AccessLookupResponse {
+  resource: EntityRef;
+  action?: Action;
+  ancestors: EntityRef[];
+  users: Array<{
+    userId: string;
+    effectiveLevel: string;
+    actions: Action[];
+    grantedBy: AccessGrant;
+    assignments: AccessGrant[];
+  }>;
+  conditionalGrants: Array<{
+    policyId: string;
+    description?: string;
+    actions: Action[];
+    condition?: string;
+    statement: string;
+  }>;
+  request: AccessLookupRequest;
+}
+
 export interface BatchAuthRequest {
   requests: AuthRequest[];
 }
@@ -4,8 +4,14 @@ import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as lambdaNodejs from "aws-cdk-lib/aws-lambda-nodejs";
 import * as apigatewayv2 from "aws-cdk-lib/aws-apigatewayv2";
 import * as apigatewayv2Integrations from "aws-cdk-lib/aws-apigatewayv2-integrations";
+import * as apigatewayv2Authorizers from "aws-cdk-lib/aws-apigatewayv2-authorizers";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventsTargets from "aws-cdk-lib/aws-events-targets";
 import * as s3 from "aws-cdk-lib/aws-s3";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import * as cloudfront from "aws-cdk-lib/aws-cloudfront";
 import * as origins from "aws-cdk-lib/aws-cloudfront-origins";
 import * as fs from "fs";
@@ -17,6 +23,7 @@ export class PocStack extends cdk.Stack {
   public readonly websiteUrlOutput: cdk.CfnOutput;
   public readonly bucketNameOutput: cdk.CfnOutput;
   public readonly distributionIdOutput: cdk.CfnOutput;
+  public readonly routeAuthorizer: apigatewayv2Authorizers.HttpLambdaAuthorizer;
 
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
     super(scope, id, props);
@@ -144,6 +151,85 @@ export class PocStack extends cdk.Stack {
       });
     });
 
+    // Policy version counter - bumped by the permissions API on every policy change
+    // so the authorize API can drop cached decisions
+    const policyVersionTable = new dynamodb.Table(this, "PolicyVersionTable", {
+      partitionKey: { name: "pk", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Resource registry - parents and creator of Projects, Models, Claims, ...
+    // written by the services that own them, so callers can't assert their own
+    const resourceRegistryTable = new dynamodb.Table(this, "ResourceRegistryTable", {
+      partitionKey: { name: "pk", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    // Conflicting client parents: -c resourceConflictMode=ignore uses the registered ones instead of a 400.
+    // Unregistered Projects, Models, ... lose their client parents and creator; -c resourceRegistryUnregistered=
+    // reject rejects them instead, =trust keeps the client's values (playground only)
+    const resourceRegistryEnvironment = {
+      RESOURCE_REGISTRY_TABLE: resourceRegistryTable.tableName,
+      RESOURCE_CONFLICT_MODE: this.node.tryGetContext("resourceConflictMode") || "reject",
+      RESOURCE_REGISTRY_UNREGISTERED: this.node.tryGetContext("resourceRegistryUnregistered") || "ignore",
+    };
+
+    // Hierarchy store - one denormalized snapshot (full ancestor chain) per Site,
+    // Region, Organization and Participation, filled by the hierarchy loader and
+    // kept current by hierarchy-events. Also holds the hierarchy version counter
+    const hierarchyTable = new dynamodb.Table(this, "HierarchyTable", {
+      partitionKey: { name: "pk", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+    // Children of a company ("Region#10" -> its Sites), to rebuild them when it moves
+    hierarchyTable.addGlobalSecondaryIndex({
+      indexName: "byParent",
+      partitionKey: { name: "parent", type: dynamodb.AttributeType.STRING },
+    });
+
+    // Hierarchy source: mock data unless deployed with -c hierarchyService=production
+    // -c companyServiceUrl=... -c siteServiceUrl=... (-c hierarchyServiceTokenSecret=<secret name>
+    // for auth), or -c hierarchyService=store to read the hierarchy store.
+    // The token is read from Secrets Manager at runtime, never put in the template
+    const hierarchyTokenSecretName: string | undefined = this.node.tryGetContext("hierarchyServiceTokenSecret");
+    const hierarchyTokenSecret = hierarchyTokenSecretName
+      ? secretsmanager.Secret.fromSecretNameV2(this, "HierarchyServiceToken", hierarchyTokenSecretName)
+      : undefined;
+    const hierarchyEnvironment = {
+      HIERARCHY_SERVICE: this.node.tryGetContext("hierarchyService") || "mock",
+      HIERARCHY_TABLE: hierarchyTable.tableName,
+      COMPANY_SERVICE_URL: this.node.tryGetContext("companyServiceUrl") || "",
+      SITE_SERVICE_URL: this.node.tryGetContext("siteServiceUrl") || "",
+      HIERARCHY_SERVICE_TOKEN_SECRET: hierarchyTokenSecretName || "",
+      HIERARCHY_TIMEOUT_MS: String(this.node.tryGetContext("hierarchyTimeoutMs") ?? 2000),
+      // Whole lookup incl. retries, inside the route authorizer's 10 s timeout
+      HIERARCHY_DEADLINE_MS: String(this.node.tryGetContext("hierarchyDeadlineMs") ?? 5000),
+      // Per-container hierarchy cache: -c hierarchyCacheTtlMs=0 disables it
+      HIERARCHY_CACHE_TTL_MS: String(this.node.tryGetContext("hierarchyCacheTtlMs") ?? 300000),
+    };
+
+    // Policy template IDs, to tell which permission level a template-linked policy grants
+    const templateEnvironment = {
+      TEMPLATE_VIEWER: viewerTemplate.attrPolicyTemplateId,
+      TEMPLATE_CONTRIBUTOR: contributorTemplate.attrPolicyTemplateId,
+      TEMPLATE_CHAMPION: championTemplate.attrPolicyTemplateId,
+      TEMPLATE_COORDINATOR: coordinatorTemplate.attrPolicyTemplateId,
+      TEMPLATE_FACILITATOR: facilitatorTemplate.attrPolicyTemplateId,
+      TEMPLATE_ADMINISTRATOR: administratorTemplate.attrPolicyTemplateId,
+    };
+
+    // Bearer token verification: -c jwksUrl=... enables it. The authorize API then needs
+    // X-Service-Key for body userIds; the route authorizer denies every request without it
+    const principalEnvironment = {
+      JWKS_URL: this.node.tryGetContext("jwksUrl") || "",
+      JWT_ISSUER: this.node.tryGetContext("jwtIssuer") || "",
+      JWT_AUDIENCE: this.node.tryGetContext("jwtAudience") || "",
+      JWT_USER_ID_CLAIM: this.node.tryGetContext("jwtUserIdClaim") || "email",
+      TRUSTED_SERVICE_KEYS: this.node.tryGetContext("trustedServiceKeys") || "",
+    };
+
     // Permissions API Lambda
     const permissionsLambda = new lambdaNodejs.NodejsFunction(this, "PermissionsApi", {
       entry: path.join(__dirname, "../../lambdas/permissions-api/index.ts"),
@@ -151,12 +237,9 @@ export class PocStack extends cdk.Stack {
       runtime: lambda.Runtime.NODEJS_20_X,
       environment: {
         POLICY_STORE_ID: policyStore.attrPolicyStoreId,
-        TEMPLATE_VIEWER: viewerTemplate.attrPolicyTemplateId,
-        TEMPLATE_CONTRIBUTOR: contributorTemplate.attrPolicyTemplateId,
-        TEMPLATE_CHAMPION: championTemplate.attrPolicyTemplateId,
-        TEMPLATE_COORDINATOR: coordinatorTemplate.attrPolicyTemplateId,
-        TEMPLATE_FACILITATOR: facilitatorTemplate.attrPolicyTemplateId,
-        TEMPLATE_ADMINISTRATOR: administratorTemplate.attrPolicyTemplateId,
+        POLICY_VERSION_TABLE: policyVersionTable.tableName,
+        ...templateEnvironment,
+        METRICS_SERVICE: "permissions-api",
       },
       timeout: cdk.Duration.seconds(30),
       bundling: {
@@ -166,20 +249,81 @@ export class PocStack extends cdk.Stack {
     });
 
     // Authorize API Lambda
+    // Engine is "avp" unless deployed with -c authorizationEngine=embedded, which
+    // evaluates in-process with Cedar using the bundled /authorization directory
+    const authorizationDir = path.join(__dirname, "../../../authorization");
+    const cedarBundling: lambdaNodejs.BundlingOptions = {
+      externalModules: ["@aws-sdk/*"],
+      // The wasm binary is loaded from disk, so it can't be inlined by esbuild
+      nodeModules: ["@cedar-policy/cedar-wasm"],
+      forceDockerBundling: false,
+      commandHooks: {
+        beforeBundling: () => [],
+        beforeInstall: () => [],
+        afterBundling: (_inputDir: string, outputDir: string) => [
+          `cp -r ${authorizationDir} ${outputDir}/authorization`,
+        ],
+      },
+    };
     const authorizeLambda = new lambdaNodejs.NodejsFunction(this, "AuthorizeApi", {
       entry: path.join(__dirname, "../../lambdas/authorize-api/index.ts"),
       handler: "handler",
       runtime: lambda.Runtime.NODEJS_20_X,
       environment: {
         POLICY_STORE_ID: policyStore.attrPolicyStoreId,
+        AUTHORIZATION_ENGINE: this.node.tryGetContext("authorizationEngine") || "avp",
+        AUTHORIZATION_DIR: "/var/task/authorization",
+        // Shadow mode: -c shadowMode=embedded|avp|legacy (-c legacyDecisionUrl=... for legacy)
+        SHADOW_MODE: this.node.tryGetContext("shadowMode") || "off",
+        LEGACY_DECISION_URL: this.node.tryGetContext("legacyDecisionUrl") || "",
+        // Decision cache: -c decisionCacheTtlMs=0 disables it
+        DECISION_CACHE_TTL_MS: String(this.node.tryGetContext("decisionCacheTtlMs") ?? 30000),
+        POLICY_VERSION_TABLE: policyVersionTable.tableName,
+        ...principalEnvironment,
+        // Template IDs let /authorize/explain name the permission level of an assignment
+        ...templateEnvironment,
+        ...resourceRegistryEnvironment,
+        ...hierarchyEnvironment,
+        METRICS_SERVICE: "authorize-api",
       },
       timeout: cdk.Duration.seconds(30),
-      bundling: {
-        externalModules: ["@aws-sdk/*"],
-        forceDockerBundling: false,
+      bundling: cedarBundling,
+    });
+
+    // Route Authorizer Lambda
+    // HTTP API Lambda authorizer enforcing lambdas/authorizer/routeMap.ts. Attach
+    // `routeAuthorizer` to routes of any API in this app to get Cedar enforcement
+    const routeAuthorizerLambda = new lambdaNodejs.NodejsFunction(this, "RouteAuthorizer", {
+      entry: path.join(__dirname, "../../lambdas/authorizer/index.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_20_X,
+      environment: {
+        POLICY_STORE_ID: policyStore.attrPolicyStoreId,
+        AUTHORIZATION_ENGINE: this.node.tryGetContext("authorizationEngine") || "avp",
+        AUTHORIZATION_DIR: "/var/task/authorization",
+        DECISION_CACHE_TTL_MS: String(this.node.tryGetContext("decisionCacheTtlMs") ?? 30000),
+        POLICY_VERSION_TABLE: policyVersionTable.tableName,
+        ...principalEnvironment,
+        ...resourceRegistryEnvironment,
+        ...hierarchyEnvironment,
+        METRICS_SERVICE: "authorizer",
       },
+      timeout: cdk.Duration.seconds(10),
+      bundling: cedarBundling,
     });
 
+    this.routeAuthorizer = new apigatewayv2Authorizers.HttpLambdaAuthorizer(
+      "RouteAuthorizer",
+      routeAuthorizerLambda,
+      {
+        responseTypes: [apigatewayv2Authorizers.HttpLambdaResponseType.SIMPLE],
+        // Bearer token, or "ServiceKey <key>" for trusted services naming the user in X-User-Id
+        identitySource: ["$request.header.Authorization"],
+        // The identity source doesn't include the route, so API Gateway must not reuse decisions
+        resultsCacheTtl: cdk.Duration.seconds(0),
+      }
+    );
+
     // Grant Verified Permissions access
     const avpPolicy = new iam.PolicyStatement({
       effect: iam.Effect.ALLOW,
@@ -198,6 +342,84 @@ export class PocStack extends cdk.Stack {
 
     permissionsLambda.addToRolePolicy(avpPolicy);
     authorizeLambda.addToRolePolicy(avpPolicy);
+    routeAuthorizerLambda.addToRolePolicy(avpPolicy);
+
+    // Hierarchy Loader Lambda
+    // Builds the hierarchy store from mockData.ts; invoke after deploying
+    const hierarchyLoaderLambda = new lambdaNodejs.NodejsFunction(this, "HierarchyLoader", {
+      entry: path.join(__dirname, "../../lambdas/hierarchy-loader/index.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_20_X,
+      environment: {
+        HIERARCHY_TABLE: hierarchyTable.tableName,
+      },
+      timeout: cdk.Duration.seconds(60),
+      bundling: {
+        externalModules: ["@aws-sdk/*"],
+        forceDockerBundling: false,
+      },
+    });
+
+    // Resource Loader Lambda
+    // Seeds the resource registry with the mock Projects, Models and Claims; invoke after deploying
+    const resourceLoaderLambda = new lambdaNodejs.NodejsFunction(this, "ResourceLoader", {
+      entry: path.join(__dirname, "../../lambdas/resource-loader/index.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_20_X,
+      environment: {
+        RESOURCE_REGISTRY_TABLE: resourceRegistryTable.tableName,
+      },
+      timeout: cdk.Duration.seconds(60),
+      bundling: {
+        externalModules: ["@aws-sdk/*"],
+        forceDockerBundling: false,
+      },
+    });
+
+    // Hierarchy Events Lambda
+    // Applies site-service / company-service change events to the hierarchy store and
+    // audits whose access they changed, listed from the policy set the authorizers use
+    const hierarchyEventsLambda = new lambdaNodejs.NodejsFunction(this, "HierarchyEvents", {
+      entry: path.join(__dirname, "../../lambdas/hierarchy-events/index.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_20_X,
+      environment: {
+        POLICY_STORE_ID: policyStore.attrPolicyStoreId,
+        AUTHORIZATION_ENGINE: this.node.tryGetContext("authorizationEngine") || "avp",
+        AUTHORIZATION_DIR: "/var/task/authorization",
+        HIERARCHY_TABLE: hierarchyTable.tableName,
+        // Without them accessChanges can't tell the levels of AVP template-linked policies
+        ...templateEnvironment,
+        METRICS_SERVICE: "hierarchy-events",
+      },
+      timeout: cdk.Duration.seconds(60),
+      bundling: cedarBundling,
+    });
+    hierarchyEventsLambda.addToRolePolicy(avpPolicy);
+
+    new events.Rule(this, "HierarchyChangeRule", {
+      description: "Site and company changes for the hierarchy store",
+      eventPattern: {
+        source: ["site-service", "company-service"],
+        detailType: ["Site Updated", "Site Deleted", "Company Updated", "Company Deleted"],
+      },
+      targets: [new eventsTargets.LambdaFunction(hierarchyEventsLambda, { retryAttempts: 4 })],
+    });
+
+    policyVersionTable.grantReadWriteData(permissionsLambda);
+    policyVersionTable.grantReadData(authorizeLambda);
+    policyVersionTable.grantReadData(routeAuthorizerLambda);
+
+    resourceRegistryTable.grantReadData(authorizeLambda);
+    resourceRegistryTable.grantReadData(routeAuthorizerLambda);
+    resourceRegistryTable.grantReadWriteData(resourceLoaderLambda);
+
+    hierarchyTable.grantReadData(authorizeLambda);
+    hierarchyTable.grantReadData(routeAuthorizerLambda);
+    hierarchyTable.grantReadWriteData(hierarchyLoaderLambda);
+    hierarchyTable.grantReadWriteData(hierarchyEventsLambda);
+    hierarchyTokenSecret?.grantRead(authorizeLambda);
+    hierarchyTokenSecret?.grantRead(routeAuthorizerLambda);
 
     // HTTP API
     const httpApi = new apigatewayv2.HttpApi(this, "HttpApi", {
@@ -256,6 +478,215 @@ export class PocStack extends cdk.Stack {
       ),
     });
 
+    httpApi.addRoutes({
+      path: "/authorize/explain",
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        "AuthorizeExplainIntegration",
+        authorizeLambda
+      ),
+    });
+
+    httpApi.addRoutes({
+      path: "/authorize/actions",
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        "AuthorizeActionsIntegration",
+        authorizeLambda
+      ),
+    });
+
+    httpApi.addRoutes({
+      path: "/authorize/filter",
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        "AuthorizeFilterIntegration",
+        authorizeLambda
+      ),
+    });
+
+    httpApi.addRoutes({
+      path: "/authorize/access",
+      methods: [apigatewayv2.HttpMethod.POST],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        "AuthorizeAccessIntegration",
+        authorizeLambda
+      ),
+    });
+
+    httpApi.addRoutes({
+      path: "/authorize/cache/stats",
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        "AuthorizeCacheStatsIntegration",
+        authorizeLambda
+      ),
+    });
+
+    httpApi.addRoutes({
+      path: "/authorize/shadow/report",
+      methods: [apigatewayv2.HttpMethod.GET],
+      integration: new apigatewayv2Integrations.HttpLambdaIntegration(
+        "AuthorizeShadowReportIntegration",
+        authorizeLambda
+      ),
+    });
+
+    // Route-authorized routes
+    // The routes in lambdas/authorizer/routeMap.ts, enforced by routeAuthorizer and
+    // answered by an echo backend standing in for the site and cohort services. Like them, it
+    // registers the Projects and Models it creates in the resource registry
+    const echoBackendLambda = new lambdaNodejs.NodejsFunction(this, "RouteEchoBackend", {
+      entry: path.join(__dirname, "../../lambdas/authorizer/echoBackend.ts"),
+      handler: "handler",
+      runtime: lambda.Runtime.NODEJS_20_X,
+      environment: {
+        RESOURCE_REGISTRY_TABLE: resourceRegistryTable.tableName,
+      },
+      timeout: cdk.Duration.seconds(10),
+      bundling: {
+        externalModules: ["@aws-sdk/*"],
+        forceDockerBundling: false,
+      },
+    });
+    resourceRegistryTable.grantReadWriteData(echoBackendLambda);
+    const echoBackendIntegration = new apigatewayv2Integrations.HttpLambdaIntegration(
+      "RouteEchoBackendIntegration",
+      echoBackendLambda
+    );
+    // {proxy+} routes are matched against the route map by raw method and path
+    for (const prefix of ["/sites", "/cohorts"]) {
+      httpApi.addRoutes({
+        path: `${prefix}/{proxy+}`,
+        methods: [
+          apigatewayv2.HttpMethod.GET,
+          apigatewayv2.HttpMethod.POST,
+          apigatewayv2.HttpMethod.PUT,
+          apigatewayv2.HttpMethod.DELETE,
+        ],
+        integration: echoBackendIntegration,
+        authorizer: this.routeAuthorizer,
+      });
+    }
+
+    // Metrics dashboard and alarms
+    // The lambdas emit EMF metrics (lambdas/shared/metrics.ts) under a Service dimension
+    const metricsNamespace = "GazeboPoc";
+    const services = ["authorize-api", "authorizer", "permissions-api"];
+    const serviceMetric = (
+      service: string,
+      metricName: string,
+      statistic: string,
+      dimensions: Record<string, string> = {}
+    ) =>
+      new cloudwatch.Metric({
+        namespace: metricsNamespace,
+        metricName,
+        statistic,
+        dimensionsMap: { Service: service, ...dimensions },
+        period: cdk.Duration.minutes(1),
+        label: `${service} ${metricName}${Object.values(dimensions).map((v) => ` ${v}`).join("")}`,
+      });
+    // Decision counts are split by Action and ResourceType, so sum them with a search
+    const decisionSearch = (metricName: string) =>
+      new cloudwatch.MathExpression({
+        expression:
+          `SUM(SEARCH('{${metricsNamespace},Service,Action,ResourceType} ` +
+          `MetricName="${metricName}"', 'Sum', 60))`,
+        label: metricName,
+        period: cdk.Duration.minutes(1),
+      });
+
+    const dashboard = new cloudwatch.Dashboard(this, "MetricsDashboard", {
+      dashboardName: `${this.stackName}-authorization`,
+    });
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "Requests",
+        left: services.map((service) => serviceMetric(service, "Requests", "Sum")),
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Error rate",
+        left: services.map((service) => serviceMetric(service, "Errors", "Average")),
+        leftYAxis: { min: 0, max: 1 },
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Request latency p99 (ms)",
+        left: services.map((service) => serviceMetric(service, "RequestLatency", "p99")),
+        width: 8,
+      })
+    );
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "Decisions",
+        left: [decisionSearch("Allowed"), decisionSearch("Denied"), decisionSearch("EvaluationErrors")],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "AVP latency p99 (ms)",
+        left: ["IsAuthorized", "BatchIsAuthorized"].flatMap((operation) =>
+          ["authorize-api", "authorizer"].map((service) =>
+            serviceMetric(service, "AvpLatency", "p99", { Operation: operation })
+          )
+        ),
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Batch size",
+        left: ["batch", "filter"].map((route) =>
+          serviceMetric("authorize-api", "BatchSize", "Average", { Route: route })
+        ),
+        right: ["batch", "filter"].map((route) =>
+          serviceMetric("authorize-api", "BatchSize", "Maximum", { Route: route })
+        ),
+        width: 8,
+      })
+    );
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: "buildEntities / hierarchy lookup p99 (ms)",
+        left: ["authorize-api", "authorizer"].flatMap((service) => [
+          serviceMetric(service, "BuildEntitiesDuration", "p99"),
+          serviceMetric(service, "HierarchyLookupDuration", "p99"),
+        ]),
+        width: 12,
+      }),
+      new cloudwatch.GraphWidget({
+        title: "Hierarchy lookup failures",
+        left: ["authorize-api", "authorizer"].map((service) =>
+          serviceMetric(service, "HierarchyLookupFailures", "Sum")
+        ),
+        width: 12,
+      })
+    );
+
+    // Alarms: more than 5% of requests failing, or p99 latency over 1s, for 3 of 5 minutes
+    for (const [service, id] of [
+      ["authorize-api", "AuthorizeApi"],
+      ["authorizer", "RouteAuthorizer"],
+    ]) {
+      new cloudwatch.Alarm(this, `${id}ErrorRateAlarm`, {
+        metric: serviceMetric(service, "Errors", "Average"),
+        threshold: 0.05,
+        evaluationPeriods: 5,
+        datapointsToAlarm: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        alarmDescription: `${service}: more than 5% of requests return an error`,
+      });
+      new cloudwatch.Alarm(this, `${id}LatencyAlarm`, {
+        metric: serviceMetric(service, "RequestLatency", "p99"),
+        threshold: 1000,
+        evaluationPeriods: 5,
+        datapointsToAlarm: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        alarmDescription: `${service}: p99 request latency above 1s`,
+      });
+    }
+
     // S3 bucket for frontend (let CDK generate unique name)
     const websiteBucket = new s3.Bucket(this, "WebsiteBucket", {
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
@@ -293,6 +724,36 @@ export class PocStack extends cdk.Stack {
       description: "API Gateway URL",
     });
 
+    new cdk.CfnOutput(this, "RouteAuthorizerFunctionArn", {
+      value: routeAuthorizerLambda.functionArn,
+      description: "Lambda authorizer enforcing Cedar decisions on HTTP API routes",
+    });
+
+    new cdk.CfnOutput(this, "ResourceRegistryTableName", {
+      value: resourceRegistryTable.tableName,
+      description: "DynamoDB table the owning services register resource parents and creators in",
+    });
+
+    new cdk.CfnOutput(this, "HierarchyTableName", {
+      value: hierarchyTable.tableName,
+      description: "DynamoDB table holding hierarchy snapshots (read with -c hierarchyService=store)",
+    });
+
+    new cdk.CfnOutput(this, "ResourceLoaderFunctionName", {
+      value: resourceLoaderLambda.functionName,
+      description: "Invoke to seed the resource registry with the mock resources",
+    });
+
+    new cdk.CfnOutput(this, "HierarchyLoaderFunctionName", {
+      value: hierarchyLoaderLambda.functionName,
+      description: "Invoke to (re)build the hierarchy store from mock data",
+    });
+
+    new cdk.CfnOutput(this, "HierarchyEventsFunctionName", {
+      value: hierarchyEventsLambda.functionName,
+      description: "Applies site and company change events (invoke with a fixture to test)",
+    });
+
     new cdk.CfnOutput(this, "PolicyStoreId", {
       value: policyStore.attrPolicyStoreId,
       description: "Verified Permissions Policy Store ID",
@@ -1,27 +1,113 @@
 import {
-  VerifiedPermissionsClient,
-  IsAuthorizedCommand,
-  BatchIsAuthorizedCommand,
-  Decision,
-} from "@aws-sdk/client-verifiedpermissions";
-import { APIGatewayProxyHandlerV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { AuthRequest, BatchAuthRequest } from "../shared/types";
+  APIGatewayProxyEventV2,
+  APIGatewayProxyHandlerV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
+import {
+  AllowedActionsRequest,
+  AuthRequest,
+  BatchAuthRequest,
+  BatchItemError,
+  FilterRequest,
+  RequestContext,
+} from "../shared/types";
 import { buildEntities } from "../shared/entities";
+import { hierarchyService, HierarchyLookupError } from "../shared/hierarchyService";
+import { conflictIssues, findEntityConflicts, RequestHierarchyResolver } from "../shared/hierarchyResolver";
+import { ResourceRegistryError } from "../shared/resourceRegistry";
+import {
+  AuthorizationResult,
+  createAuthorizationEngine,
+  toAuthorizationQuery,
+} from "../shared/authorizationEngine";
+import { createShadowComparator } from "../shared/shadowMode";
+import { createPolicyCatalog } from "../shared/policyCatalog";
+import { explainDecision } from "../shared/explain";
+import {
+  authorizeInChunks,
+  BatchItem,
+  MAX_BATCH_REQUESTS,
+  RESOLVE_CONCURRENCY,
+  runWithConcurrency,
+} from "../shared/batching";
+import {
+  getActionsForResourceType,
+  parseRequestBody,
+  RequestBodyError,
+  validateAccessLookupRequest,
+  validateAllowedActionsRequest,
+  validateAuthRequest,
+  validateFilterRequest,
+} from "../shared/validation";
+import { CachingAuthorizationEngine } from "../shared/decisionCache";
+import { CachingHierarchyService } from "../shared/hierarchyCache";
+import { filterResources } from "../shared/resourceFilter";
+import { AccessLookupRequest, findUsersWithAccess } from "../shared/accessLookup";
+import { PrincipalResolutionError, PrincipalResolver, ResolvedPrincipal } from "../shared/principal";
+import { resolveRequestContext } from "../shared/requestContext";
+import { AuditingAuthorizationEngine, AuditLogger, getCorrelationId } from "../shared/auditLog";
+import { metrics, MetricsAuthorizationEngine } from "../shared/metrics";
+
+// AVP by default; AUTHORIZATION_ENGINE=embedded evaluates in-process with Cedar.
+// Decisions are cached per container and dropped when the policy version changes.
+const engine = new CachingAuthorizationEngine(createAuthorizationEngine());
+
+// Sites, companies and ancestor chains are cached per container (HIERARCHY_CACHE_TTL_MS)
+const hierarchy = new CachingHierarchyService(hierarchyService);
 
-const client = new VerifiedPermissionsClient({});
-const POLICY_STORE_ID = process.env.POLICY_STORE_ID!;
+// Allow/deny counts by action and resource type (EMF), cached decisions included
+const decisions = new MetricsAuthorizationEngine(engine);
 
-const headers = {
+// Optional second decision source (SHADOW_MODE); results never reach the caller
+const shadow = createShadowComparator();
+// Shadow work is waited on once per invocation, after the response is built, and
+// only briefly: whatever is left finishes when the container is next invoked
+const SHADOW_FLUSH_TIMEOUT_MS = Number(process.env.SHADOW_FLUSH_TIMEOUT_MS || 50);
+
+// Bearer token → principal (JWKS_URL/JWKS_JSON); body userIds only from trusted services
+const principals = new PrincipalResolver();
+
+// Resolves determining policy IDs from the same policy set the engine uses
+const catalog = createPolicyCatalog(engine.type);
+
+// Every decision is written as a structured audit record (AUDIT_SINK)
+const audit = new AuditLogger("authorize-api");
+
+const corsHeaders = {
   "Content-Type": "application/json",
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "Content-Type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Service-Key, X-Correlation-Id",
+  "Access-Control-Expose-Headers": "X-Correlation-Id",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 };
 
-export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatewayProxyResultV2> => {
+/**
+ * Cedar context for a request: server time, caller address and token MFA.
+ * Body-supplied values are only honoured for trusted callers (no token principal).
+ */
+function contextFor(
+  event: APIGatewayProxyEventV2,
+  principal: ResolvedPrincipal | null,
+  context?: RequestContext
+): RequestContext {
+  return resolveRequestContext({
+    body: context,
+    trusted: principal === null,
+    sourceIp: event.requestContext.http.sourceIp,
+    mfaAuthenticated: principal?.mfaAuthenticated,
+  });
+}
+
+const routeRequest = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyStructuredResultV2> => {
   const method = event.requestContext.http.method;
   const path = event.rawPath;
 
+  // One correlation ID ties the response to its audit records
+  const correlationId = getCorrelationId(event.headers);
+  const headers = { ...corsHeaders, "X-Correlation-Id": correlationId };
+  const audited = new AuditingAuthorizationEngine(decisions, audit, correlationId);
+
   // Handle CORS preflight
   if (method === "OPTIONS") {
     return { statusCode: 200, headers, body: "" };
@@ -30,53 +116,217 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
   try {
     // POST /authorize - Single authorization check
     if (method === "POST" && path === "/authorize") {
-      const body: AuthRequest = JSON.parse(event.body || "{}");
+      const body = parseRequestBody<AuthRequest>(event.body);
+
+      const principal = await principals.resolve(event.headers, [body.userId]);
+      if (principal) body.userId = principal.userId;
+      const entityOptions = { principalAttributes: principal?.attributes };
 
-      if (!body.userId || !body.action || !body.resourceType || !body.resourceId) {
+      const issues = validateAuthRequest(body);
+      if (issues.length > 0) {
         return {
           statusCode: 400,
           headers,
-          body: JSON.stringify({ error: "Missing required fields: userId, action, resourceType, resourceId" }),
+          body: JSON.stringify({ error: "Invalid request", issues }),
         };
       }
+      body.context = contextFor(event, principal, body.context);
 
-      const entities = await buildEntities(body);
-
-      const command = new IsAuthorizedCommand({
-        policyStoreId: POLICY_STORE_ID,
-        principal: {
-          entityType: "Gazebo::User",
-          entityId: body.userId,
-        },
-        action: {
-          actionType: "Gazebo::Action",
-          actionId: body.action,
-        },
-        resource: {
-          entityType: `Gazebo::${body.resourceType}`,
-          entityId: body.resourceId,
-        },
-        entities,
-      });
+      const entities = await buildEntities(body, hierarchy, entityOptions);
+      const pending = audited.isAuthorized(toAuthorizationQuery(body), entities);
+      shadow?.compare(body, entities, pending);
+
+      const result = await pending;
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          decision: result.decision,
+          allowed: result.allowed,
+          determiningPolicies: result.determiningPolicies,
+          errors: result.errors,
+          request: body,
+        }),
+      };
+    }
+
+    // POST /authorize/explain - Single check with a full decision trace
+    if (method === "POST" && path === "/authorize/explain") {
+      const body = parseRequestBody<AuthRequest>(event.body);
 
-      const result = await client.send(command);
+      const principal = await principals.resolve(event.headers, [body.userId]);
+      if (principal) body.userId = principal.userId;
+      const entityOptions = { principalAttributes: principal?.attributes };
+
+      const issues = validateAuthRequest(body);
+      if (issues.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: "Invalid request", issues }),
+        };
+      }
+      body.context = contextFor(event, principal, body.context);
+
+      const entities = await buildEntities(body, hierarchy, entityOptions);
+      const result = await audited.isAuthorized(toAuthorizationQuery(body), entities);
+      const explanation = await explainDecision(body, entities, result, catalog);
 
       return {
         statusCode: 200,
         headers,
         body: JSON.stringify({
           decision: result.decision,
-          allowed: result.decision === Decision.ALLOW,
+          allowed: result.allowed,
           determiningPolicies: result.determiningPolicies,
           errors: result.errors,
           request: body,
+          explanation,
+        }),
+      };
+    }
+
+    // POST /authorize/actions - Every action allowed for a user on one resource
+    if (method === "POST" && path === "/authorize/actions") {
+      const body = parseRequestBody<AllowedActionsRequest>(event.body);
+
+      const principal = await principals.resolve(event.headers, [body.userId]);
+      if (principal) body.userId = principal.userId;
+      const entityOptions = { principalAttributes: principal?.attributes };
+
+      const issues = validateAllowedActionsRequest(body);
+      if (issues.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: "Invalid request", issues }),
+        };
+      }
+      body.context = contextFor(event, principal, body.context);
+
+      const actions = getActionsForResourceType(body.resourceType);
+
+      // Entities don't depend on the action, so one build and one batch covers them all
+      const requests: AuthRequest[] = actions.map((action) => ({ ...body, action }));
+      const entities = await buildEntities(requests[0], hierarchy, entityOptions);
+      const pending = audited.batchIsAuthorized(requests.map(toAuthorizationQuery), entities);
+      requests.forEach((req, i) => {
+        shadow?.compare(req, entities, pending.then((results) => results[i]));
+      });
+
+      const results = await pending;
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          allowedActions: actions.filter((_, i) => results[i].allowed),
+          actions: actions.map((action, i) => ({
+            action,
+            decision: results[i].decision,
+            allowed: results[i].allowed,
+            determiningPolicies: results[i].determiningPolicies,
+            errors: results[i].errors,
+          })),
+          request: body,
         }),
       };
     }
 
+    // POST /authorize/filter - Keep only the resources the user may act on
+    if (method === "POST" && path === "/authorize/filter") {
+      const body = parseRequestBody<FilterRequest>(event.body);
+
+      const principal = await principals.resolve(event.headers, [body.userId]);
+      if (principal) body.userId = principal.userId;
+      const entityOptions = { principalAttributes: principal?.attributes };
+
+      const issues = validateFilterRequest(body);
+      if (issues.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: "Invalid request", issues }),
+        };
+      }
+      body.context = contextFor(event, principal, body.context);
+
+      metrics.put("BatchSize", body.resources.length, "Count", { Route: "filter" });
+      if (body.resources.length > MAX_BATCH_REQUESTS) {
+        return {
+          statusCode: 413,
+          headers,
+          body: JSON.stringify({
+            error: `Too many resources: ${body.resources.length} (max ${MAX_BATCH_REQUESTS})`,
+            maxRequests: MAX_BATCH_REQUESTS,
+          }),
+        };
+      }
+
+      const result = await filterResources(audited, body, hierarchy, entityOptions);
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(result),
+      };
+    }
+
+    // POST /authorize/access - Who has access to a resource (optionally for one action)
+    if (method === "POST" && path === "/authorize/access") {
+      const body = parseRequestBody<AccessLookupRequest>(event.body);
+
+      // The caller: token principal, or X-User-Id in playground mode. Trusted services (X-Service-Key) see
+      // every user; anyone else needs Admin on the resource, or sees only their own access
+      const principal = await principals.resolve(event.headers);
+      const trustedService = principal === null && principals.enforcing;
+      const callerId = principal?.userId ?? (trustedService ? undefined : event.headers["x-user-id"]);
+      if (!trustedService && !callerId) {
+        return {
+          statusCode: 401,
+          headers,
+          body: JSON.stringify({ error: "Bearer token or X-User-Id required" }),
+        };
+      }
+
+      const issues = validateAccessLookupRequest(body);
+      if (issues.length > 0) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: "Invalid request", issues }),
+        };
+      }
+
+      let access = await findUsersWithAccess(body, catalog, hierarchy);
+
+      if (callerId) {
+        const adminCheck: AuthRequest = {
+          ...body,
+          userId: callerId,
+          action: "Admin",
+          context: contextFor(event, principal, body.context),
+        };
+        const entities = await buildEntities(adminCheck, hierarchy, {
+          principalAttributes: principal?.attributes,
+        });
+        const admin = await audited.isAuthorized(toAuthorizationQuery(adminCheck), entities);
+        if (!admin.allowed) {
+          access = { ...access, users: access.users.filter((user) => user.userId === callerId) };
+        }
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ ...access, request: body }),
+      };
+    }
+
     // POST /authorize/batch - Multiple authorization checks
     if (method === "POST" && path === "/authorize/batch") {
-      const body: BatchAuthRequest = JSON.parse(event.body || "{}");
+      const body = parseRequestBody<BatchAuthRequest>(event.body);
 
       if (!body.requests || !Array.isArray(body.requests) || body.requests.length === 0) {
         return {
@@ -86,64 +336,215 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
         };
       }
 
-      // Build requests (without entities - those go at the top level)
-      const requests = body.requests.map((req) => ({
-        principal: {
-          entityType: "Gazebo::User",
-          entityId: req.userId,
-        },
-        action: {
-          actionType: "Gazebo::Action",
-          actionId: req.action,
-        },
-        resource: {
-          entityType: `Gazebo::${req.resourceType}`,
-          entityId: req.resourceId,
-        },
-      }));
-
-      // Combine entities from all requests (deduplicated by identifier)
-      const entityMap = new Map<string, any>();
-      for (const req of body.requests) {
-        const { entityList } = await buildEntities(req);
-        for (const entity of entityList) {
-          const key = `${entity.identifier.entityType}::${entity.identifier.entityId}`;
-          if (!entityMap.has(key)) {
-            entityMap.set(key, entity);
+      metrics.put("BatchSize", body.requests.length, "Count", { Route: "batch" });
+      if (body.requests.length > MAX_BATCH_REQUESTS) {
+        return {
+          statusCode: 413,
+          headers,
+          body: JSON.stringify({
+            error: `Batch too large: ${body.requests.length} requests (max ${MAX_BATCH_REQUESTS})`,
+            maxRequests: MAX_BATCH_REQUESTS,
+          }),
+        };
+      }
+
+      // A token principal applies to every item (items may omit userId)
+      const principal = await principals.resolve(
+        event.headers,
+        body.requests.map((req) => (req && typeof req === "object" ? req.userId : undefined))
+      );
+      if (principal) {
+        for (const req of body.requests) {
+          if (req && typeof req === "object") req.userId = principal.userId;
+        }
+      }
+      const entityOptions = { principalAttributes: principal?.attributes };
+
+      // Validate and resolve each item on its own; failures are reported per item.
+      // Items are built RESOLVE_CONCURRENCY at a time, sharing one lookup per distinct hierarchy chain
+      const resolver = new RequestHierarchyResolver(hierarchy);
+      const failures = new Map<number, BatchItemError>();
+      const built: Array<BatchItem | undefined> = [];
+
+      await runWithConcurrency(
+        body.requests.map((req, i) => async () => {
+          const issues = validateAuthRequest(req, `requests[${i}]`);
+          if (issues.length > 0) {
+            failures.set(i, { code: "INVALID_REQUEST", message: "Invalid request", issues });
+            return;
           }
+          req.context = contextFor(event, principal, req.context);
+
+          try {
+            const entities = await buildEntities(req, resolver, {
+              ...entityOptions,
+              onHierarchyError: "throw",
+            });
+            built[i] = { query: toAuthorizationQuery(req), entities };
+          } catch (error) {
+            if (error instanceof ResourceRegistryError) {
+              failures.set(i, {
+                code: "INVALID_REQUEST",
+                message: error.message,
+                issues: error.issues.map((issue) => ({ ...issue, field: `requests[${i}].${issue.field}` })),
+              });
+              return;
+            }
+            failures.set(i, {
+              code: error instanceof HierarchyLookupError ? "HIERARCHY_LOOKUP_FAILED" : "EVALUATION_FAILED",
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }),
+        RESOLVE_CONCURRENCY
+      );
+
+      // Items that describe the same entity differently can't share a chunk
+      const conflicts = findEntityConflicts(built.map((item) => item?.entities));
+      for (const [i, entityConflicts] of conflicts) {
+        failures.set(i, {
+          code: "INVALID_REQUEST",
+          message: "Conflicts with other requests in the batch",
+          issues: conflictIssues(entityConflicts, (j) => `requests[${j}]`, i),
+        });
+      }
+
+      // Each request keeps its own entities so every chunk only carries what it needs
+      const items: BatchItem[] = [];
+      const itemIndexes: number[] = [];
+      built.forEach((item, i) => {
+        if (item && !conflicts.has(i)) {
+          items.push(item);
+          itemIndexes.push(i);
         }
+      });
+
+      // Chunked to BatchIsAuthorized limits; outcomes come back in item order
+      const pending = authorizeInChunks(audited, items);
+      if (shadow) {
+        itemIndexes.forEach((requestIndex, j) => {
+          const outcome = pending.then((o) =>
+            o[j].status === "fulfilled" ? o[j].value : Promise.reject(o[j].reason)
+          );
+          shadow.compare(body.requests[requestIndex], items[j].entities, outcome);
+        });
       }
-      const combinedEntities = { entityList: Array.from(entityMap.values()) };
 
-      const command = new BatchIsAuthorizedCommand({
-        policyStoreId: POLICY_STORE_ID,
-        requests,
-        entities: combinedEntities,
+      const outcomes = await pending;
+
+      outcomes.forEach((outcome, j) => {
+        if (outcome.status === "rejected") {
+          console.error("Batch chunk failed:", outcome.reason);
+          failures.set(itemIndexes[j], {
+            code: "EVALUATION_FAILED",
+            message: outcome.reason?.message || String(outcome.reason),
+          });
+        }
       });
 
-      const result = await client.send(command);
+      const results = body.requests.map((req, i) => {
+        const failure = failures.get(i);
+        if (failure) {
+          return { request: req, error: failure };
+        }
+
+        const outcome = outcomes[itemIndexes.indexOf(i)] as PromiseFulfilledResult<AuthorizationResult>;
+        const r = outcome.value;
+        return {
+          request: req,
+          decision: r.decision,
+          allowed: r.allowed,
+          determiningPolicies: r.determiningPolicies,
+          errors: r.errors,
+        };
+      });
 
       return {
         statusCode: 200,
         headers,
         body: JSON.stringify({
-          results: result.results?.map((r, i) => ({
-            request: body.requests[i],
-            decision: r.decision,
-            allowed: r.decision === Decision.ALLOW,
-            determiningPolicies: r.determiningPolicies,
-            errors: r.errors,
-          })),
+          results,
+          summary: {
+            total: body.requests.length,
+            evaluated: body.requests.length - failures.size,
+            failed: failures.size,
+            hierarchyLookups: resolver.lookups,
+          },
         }),
       };
     }
 
+    // GET /authorize/cache/stats - Decision and hierarchy cache hit/miss counts (this container)
+    if (method === "GET" && path === "/authorize/cache/stats") {
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          enabled: engine.cache.enabled,
+          ...engine.cache.getStats(),
+          hierarchy: { enabled: hierarchy.enabled, ...hierarchy.getStats() },
+        }),
+      };
+    }
+
+    // GET /authorize/shadow/report - Shadow mode mismatch rates (this container)
+    if (method === "GET" && path === "/authorize/shadow/report") {
+      if (!shadow) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: "Shadow mode is disabled" }),
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(shadow.getReport()),
+      };
+    }
+
     return {
       statusCode: 404,
       headers,
       body: JSON.stringify({ error: "Not found" }),
     };
   } catch (error: any) {
+    if (error instanceof PrincipalResolutionError) {
+      return {
+        statusCode: error.statusCode,
+        headers,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+
+    // Parents or creator that disagree with the resource registry
+    if (error instanceof ResourceRegistryError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message, issues: error.issues }),
+      };
+    }
+
+    // Body that isn't a JSON object (null, an array, ...)
+    if (error instanceof RequestBodyError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: error.message, issues: error.issues }),
+      };
+    }
+
+    // Unparseable request body
+    if (error instanceof SyntaxError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: "Invalid JSON body", issues: [{ field: "body", message: error.message }] }),
+      };
+    }
+
     console.error("Error:", error);
     return {
       statusCode: 500,
@@ -152,3 +553,13 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
     };
   }
 };
+
+// Requests / Errors / RequestLatency per invocation, then flush buffered metrics
+export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatewayProxyResultV2> => {
+  const response = await metrics.invocation(
+    () => routeRequest(event),
+    (result) => (result.statusCode ?? 200) >= 500
+  );
+  await shadow?.flush(SHADOW_FLUSH_TIMEOUT_MS);
+  return response;
+};
@@ -0,0 +1,83 @@
+/**
+ * Echo Backend - Stand-in service behind the route authorizer.
+ *
+ * PocStack mounts the routes in routeMap.ts (/sites/..., /cohorts/...) on the
+ * HTTP API behind RouteAuthorizer, backed by this function, so the authorizer
+ * is enforced end to end without the real site or cohort services. Requests
+ * only get here when the authorizer allowed them; the response echoes the
+ * route and the authorizer's context.
+ *
+ * Like the real services, it keeps the resource registry current for what it
+ * creates and deletes:
+ *   POST   /sites/{siteId}/projects (or /models) → registers the new resource on
+ *                                                  the site, created by the caller
+ *   DELETE /sites/{siteId}/projects/{id}         → removes it from the registry
+ */
+
+import { randomUUID } from "crypto";
+import {
+  APIGatewayProxyEventV2WithLambdaAuthorizer,
+  APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
+import { RegisteredResource } from "../shared/mockData";
+import { IResourceRegistry, resourceRegistry } from "../shared/resourceRegistry";
+// Type only, so the backend doesn't bundle the authorizer's engines
+import type { AuthorizerContext } from "./index";
+
+// Path collection → registered type and ID prefix
+const CHILD_TYPES: Record<string, { resourceType: RegisteredResource["resourceType"]; prefix: string }> = {
+  projects: { resourceType: "Project", prefix: "proj" },
+  models: { resourceType: "Model", prefix: "model" },
+};
+
+/**
+ * Register or unregister the resource a request creates or deletes.
+ * Returns the registered record for creates, null otherwise.
+ */
+export async function syncRegistry(
+  method: string,
+  rawPath: string,
+  userId: string,
+  registry: IResourceRegistry = resourceRegistry
+): Promise<RegisteredResource | null> {
+  const [, sites, siteId, collection, resourceId, extra] = rawPath.replace(/\/$/, "").split("/");
+  const child = CHILD_TYPES[collection];
+  if (sites !== "sites" || !siteId || !child || extra !== undefined) return null;
+  const { resourceType, prefix } = child;
+
+  if (method === "POST" && resourceId === undefined) {
+    const resource: RegisteredResource = {
+      resourceType,
+      resourceId: `${prefix}-${randomUUID()}`,
+      parents: { site: decodeURIComponent(siteId) },
+      createdBy: userId,
+    };
+    await registry.putResource(resource);
+    return resource;
+  }
+  if (method === "DELETE" && resourceId !== undefined) {
+    await registry.deleteResource(resourceType, decodeURIComponent(resourceId));
+  }
+  return null;
+}
+
+export const handler = async (
+  event: APIGatewayProxyEventV2WithLambdaAuthorizer<AuthorizerContext>
+): Promise<APIGatewayProxyStructuredResultV2> => {
+  const authorizer = event.requestContext.authorizer.lambda;
+  const method = event.requestContext.http.method;
+  const created = await syncRegistry(method, event.rawPath, authorizer.userId);
+
+  return {
+    statusCode: created ? 201 : 200,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Correlation-Id": authorizer.correlationId,
+    },
+    body: JSON.stringify({
+      route: `${method} ${event.rawPath}`,
+      authorizer,
+      ...(created ? { created } : {}),
+    }),
+  };
+};
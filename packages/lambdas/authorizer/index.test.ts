@@ -0,0 +1,105 @@
+/**
+ * Route authorizer identity: bearer tokens and trusted service keys, with the
+ * embedded engine on the policies in /authorization.
+ */
+
+import { before, describe, it } from "node:test";
+import assert from "node:assert";
+import { generateKeyPairSync, KeyObject, sign } from "crypto";
+import type { APIGatewayRequestAuthorizerEventV2 } from "aws-lambda";
+import type { handler as authorizerHandler } from "./index";
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function token(claims: Record<string, unknown>, key: KeyObject = privateKey): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const signed = `${encode({ alg: "RS256", kid: "test" })}.${encode(claims)}`;
+  return `${signed}.${sign("sha256", Buffer.from(signed), key).toString("base64url")}`;
+}
+
+const validFor = (email: string) => token({ email, exp: Math.floor(Date.now() / 1000) + 300 });
+
+function event(headers: Record<string, string>, method = "GET"): APIGatewayRequestAuthorizerEventV2 {
+  return {
+    routeKey: `${method} /sites/{siteId}`,
+    rawPath: "/sites/portland-manufacturing",
+    pathParameters: { siteId: "portland-manufacturing" },
+    headers,
+    requestContext: { http: { method } },
+  } as unknown as APIGatewayRequestAuthorizerEventV2;
+}
+
+describe("route authorizer identity", () => {
+  let handler: typeof authorizerHandler;
+
+  before(async () => {
+    process.env.AUTHORIZATION_ENGINE = "embedded";
+    process.env.AUDIT_SINK = "none";
+    process.env.DECISION_CACHE_TTL_MS = "0";
+    process.env.JWKS_JSON = JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "test" }] });
+    process.env.TRUSTED_SERVICE_KEYS = "service-key-1";
+    // Environment first: the authorizer reads it when loaded
+    ({ handler } = await import("./index"));
+  });
+
+  it("takes the user from a verified bearer token", async () => {
+    const result = await handler(event({ authorization: `Bearer ${validFor("dan@cascade.com")}` }));
+
+    assert.strictEqual(result.isAuthorized, true);
+    assert.strictEqual(result.context.userId, "dan@cascade.com");
+  });
+
+  it("still evaluates the token's user's permissions", async () => {
+    const result = await handler(event({ authorization: `Bearer ${validFor("dan@cascade.com")}` }, "DELETE"));
+
+    assert.strictEqual(result.isAuthorized, false);
+    assert.strictEqual(result.context.decision, "DENY");
+  });
+
+  it("denies an X-User-Id header without credentials", async () => {
+    const result = await handler(event({ "x-user-id": "dan@cascade.com" }));
+
+    assert.strictEqual(result.isAuthorized, false);
+    assert.strictEqual(result.context.reason, "Bearer token required");
+  });
+
+  it("denies a token whose user differs from X-User-Id", async () => {
+    const result = await handler(
+      event({ authorization: `Bearer ${validFor("dan@cascade.com")}`, "x-user-id": "admin@cascade.com" })
+    );
+
+    assert.strictEqual(result.isAuthorized, false);
+    assert.strictEqual(result.context.reason, "Token principal cannot request decisions for admin@cascade.com");
+  });
+
+  it("denies a token signed with another key", async () => {
+    const { privateKey: otherKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const forged = token({ email: "dan@cascade.com", exp: Math.floor(Date.now() / 1000) + 300 }, otherKey);
+
+    const result = await handler(event({ authorization: `Bearer ${forged}` }));
+
+    assert.strictEqual(result.isAuthorized, false);
+    assert.strictEqual(result.context.reason, "Invalid token signature");
+  });
+
+  it("lets a trusted service act for the user in X-User-Id", async () => {
+    const result = await handler(event({ authorization: "ServiceKey service-key-1", "x-user-id": "dan@cascade.com" }));
+
+    assert.strictEqual(result.isAuthorized, true);
+    assert.strictEqual(result.context.userId, "dan@cascade.com");
+  });
+
+  it("denies an unknown service key", async () => {
+    const result = await handler(event({ authorization: "ServiceKey guessed", "x-user-id": "dan@cascade.com" }));
+
+    assert.strictEqual(result.isAuthorized, false);
+    assert.strictEqual(result.context.reason, "Bearer token required");
+  });
+
+  it("denies a trusted service that names no user", async () => {
+    const result = await handler(event({ authorization: "ServiceKey service-key-1" }));
+
+    assert.strictEqual(result.isAuthorized, false);
+    assert.strictEqual(result.context.reason, "Missing X-User-Id header");
+  });
+});
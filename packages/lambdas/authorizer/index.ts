@@ -0,0 +1,198 @@
+/**
+ * Route Authorizer - HTTP API Lambda authorizer that enforces Cedar decisions.
+ *
+ * Attach it to any HTTP API route listed in routeMap.ts:
+ *   1. Match the route to an Action and resource (path parameters → IDs/parents)
+ *   2. Build entities with the same buildEntities() the authorize API uses
+ *   3. Evaluate with the configured engine (AVP or embedded, decision cache included)
+ *   4. Return a simple response: isAuthorized plus context for the backend
+ *
+ * The backend reads the decision from event.requestContext.authorizer.lambda.
+ * Each evaluated decision is audited under the request's correlation ID
+ * (X-Correlation-Id, or generated), which is passed on in the context too.
+ *
+ * Identity (the Authorization header is the authorizer's identity source):
+ *   - Authorization: Bearer <jwt>         → the verified token's user (PrincipalResolver)
+ *   - Authorization: ServiceKey <key>     → a trusted service (TRUSTED_SERVICE_KEYS),
+ *     plus X-User-Id: <user>                acting for the user it names
+ * Without token verification configured (JWKS_URL / JWKS_JSON) every request
+ * is denied: an unverified user ID would enforce nothing.
+ */
+
+import {
+  APIGatewayRequestAuthorizerEventV2,
+  APIGatewaySimpleAuthorizerWithContextResult,
+} from "aws-lambda";
+import { AuthRequest, ResourceParents } from "../shared/types";
+import { buildEntities } from "../shared/entities";
+import { hierarchyService } from "../shared/hierarchyService";
+import { CachingHierarchyService } from "../shared/hierarchyCache";
+import { ResourceRegistryError } from "../shared/resourceRegistry";
+import { createAuthorizationEngine, toAuthorizationQuery } from "../shared/authorizationEngine";
+import { CachingAuthorizationEngine } from "../shared/decisionCache";
+import { AuditingAuthorizationEngine, AuditLogger, getCorrelationId } from "../shared/auditLog";
+import { PrincipalResolutionError, PrincipalResolver, ResolvedPrincipal } from "../shared/principal";
+import { metrics, MetricsAuthorizationEngine } from "../shared/metrics";
+import { matchRoute, MatchedRoute, ROUTE_MAP } from "./routeMap";
+
+// Decision cache inside, allow/deny counts (EMF) outside so cached decisions are counted too
+const engine = new MetricsAuthorizationEngine(
+  new CachingAuthorizationEngine(createAuthorizationEngine())
+);
+const audit = new AuditLogger("authorizer");
+
+// Sites, companies and ancestor chains are cached per container (HIERARCHY_CACHE_TTL_MS)
+const hierarchy = new CachingHierarchyService(hierarchyService);
+
+const principals = new PrincipalResolver();
+
+export interface AuthorizerContext {
+  userId: string;
+  action: string;
+  resource: string;
+  decision: string;
+  /** Comma-separated determining policy IDs */
+  determiningPolicies: string;
+  /** Why the request was denied before evaluation (unmapped route, no identity, error) */
+  reason: string;
+  correlationId: string;
+}
+
+type AuthorizerResult = APIGatewaySimpleAuthorizerWithContextResult<AuthorizerContext>;
+
+// Reason prefix for evaluation errors (counted in the Errors metric)
+const EVALUATION_FAILED = "Authorization failed";
+
+function deny(reason: string, context: Partial<AuthorizerContext> = {}): AuthorizerResult {
+  return {
+    isAuthorized: false,
+    context: {
+      userId: "",
+      action: "",
+      resource: "",
+      decision: "DENY",
+      determiningPolicies: "",
+      correlationId: "",
+      ...context,
+      reason,
+    },
+  };
+}
+
+/**
+ * Headers for PrincipalResolver: a service key sent as "Authorization: ServiceKey <key>"
+ * is passed on as X-Service-Key, since API Gateway only invokes the authorizer with
+ * the identity source (Authorization) present.
+ */
+function principalHeaders(headers: Record<string, string | undefined> = {}): Record<string, string | undefined> {
+  const authorization = headers.authorization;
+  if (!authorization?.startsWith("ServiceKey ")) return headers;
+  return { ...headers, authorization: undefined, "x-service-key": authorization.slice(11).trim() };
+}
+
+/**
+ * Turn a matched route into an AuthRequest.
+ */
+export function toAuthRequest(userId: string, matched: MatchedRoute): AuthRequest | null {
+  const { rule, pathParameters } = matched;
+  const resourceId = pathParameters[rule.resourceIdParam];
+  if (!resourceId) return null;
+
+  const resourceParents: ResourceParents = {};
+  for (const [field, param] of Object.entries(rule.parentParams || {})) {
+    const value = param ? pathParameters[param] : undefined;
+    if (value) resourceParents[field as keyof ResourceParents] = value;
+  }
+
+  // A site parent goes through resourceParentSite so the Region → Organization chain is resolved too
+  const { site: resourceParentSite, ...otherParents } = resourceParents;
+
+  return {
+    userId,
+    action: rule.action,
+    resourceType: rule.resourceType,
+    resourceId,
+    resourceParentSite,
+    resourceParents: Object.keys(otherParents).length > 0 ? otherParents : undefined,
+  };
+}
+
+const authorize = async (event: APIGatewayRequestAuthorizerEventV2): Promise<AuthorizerResult> => {
+  const method = event.requestContext.http.method;
+  const correlationId = getCorrelationId(event.headers);
+  const matched = matchRoute(ROUTE_MAP, event.routeKey, method, event.rawPath, event.pathParameters);
+
+  if (!matched) {
+    return deny(`No authorization rule for ${method} ${event.rawPath}`, { correlationId });
+  }
+
+  if (!principals.enforcing) {
+    return deny("Token verification is not configured", { correlationId });
+  }
+
+  // A bearer token names the user; a trusted service names it in X-User-Id (which a token must match)
+  const namedUserId = event.headers?.["x-user-id"];
+  let principal: ResolvedPrincipal | null;
+  try {
+    principal = await principals.resolve(principalHeaders(event.headers), [namedUserId]);
+  } catch (error) {
+    if (error instanceof PrincipalResolutionError) {
+      return deny(error.message, { correlationId });
+    }
+    console.error("Authorizer error:", error);
+    return deny(`${EVALUATION_FAILED}: ${error instanceof Error ? error.message : String(error)}`, {
+      correlationId,
+    });
+  }
+
+  const userId = principal?.userId ?? namedUserId;
+  if (!userId) {
+    return deny("Missing X-User-Id header", { correlationId });
+  }
+
+  const req = toAuthRequest(userId, matched);
+  if (!req) {
+    return deny(`Route ${matched.routeKey} is missing path parameter ${matched.rule.resourceIdParam}`, {
+      userId,
+      correlationId,
+    });
+  }
+
+  const context = {
+    correlationId,
+    userId,
+    action: req.action,
+    resource: `Gazebo::${req.resourceType}::${req.resourceId}`,
+  };
+
+  try {
+    const entities = await buildEntities(req, hierarchy, { principalAttributes: principal?.attributes });
+    const audited = new AuditingAuthorizationEngine(engine, audit, correlationId);
+    const result = await audited.isAuthorized(toAuthorizationQuery(req), entities);
+
+    return {
+      isAuthorized: result.allowed,
+      context: {
+        ...context,
+        decision: result.decision,
+        determiningPolicies: result.determiningPolicies.map((p) => p.policyId).join(","),
+        reason: "",
+      },
+    };
+  } catch (error) {
+    // Path parameters that disagree with the resource registry are a denial, not a failure
+    if (error instanceof ResourceRegistryError) {
+      return deny(error.message, context);
+    }
+
+    // Fail closed: an evaluation error never lets the request through
+    console.error("Authorizer error:", error);
+    return deny(`${EVALUATION_FAILED}: ${error instanceof Error ? error.message : String(error)}`, context);
+  }
+};
+
+export const handler = async (event: APIGatewayRequestAuthorizerEventV2): Promise<AuthorizerResult> =>
+  metrics.invocation(
+    () => authorize(event),
+    (result) => result.context.reason.startsWith(EVALUATION_FAILED)
+  );
@@ -0,0 +1,160 @@
+/**
+ * Route Map - Declares which Cedar check protects each HTTP API route.
+ *
+ * Each entry maps an API Gateway route key ("METHOD /path/{param}") to an
+ * Action and a resource. Resource IDs and parents come from path parameters,
+ * so a service only adds a line here to get enforcement:
+ *
+ *   "DELETE /sites/{siteId}" → Delete on Site::{siteId}
+ *   "POST /sites/{siteId}/projects" → Create on Site::{siteId} (the new project's parent)
+ *
+ * Routes that aren't listed are denied.
+ */
+
+import { Action, ResourceParents, ResourceType } from "../shared/types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RouteRule {
+  action: Action;
+  resourceType: ResourceType;
+  /** Path parameter holding the resource ID (e.g. "siteId") */
+  resourceIdParam: string;
+  /** Parent fields filled from path parameters, e.g. { site: "siteId" } */
+  parentParams?: Partial<Record<keyof ResourceParents, string>>;
+}
+
+export interface MatchedRoute {
+  routeKey: string;
+  rule: RouteRule;
+  pathParameters: Record<string, string>;
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+export const ROUTE_MAP: Record<string, RouteRule> = {
+  // Sites
+  "GET /sites/{siteId}": { action: "View", resourceType: "Site", resourceIdParam: "siteId" },
+  "PUT /sites/{siteId}": { action: "Edit", resourceType: "Site", resourceIdParam: "siteId" },
+  "DELETE /sites/{siteId}": { action: "Delete", resourceType: "Site", resourceIdParam: "siteId" },
+
+  // Projects (children of a site)
+  "POST /sites/{siteId}/projects": { action: "Create", resourceType: "Site", resourceIdParam: "siteId" },
+  "GET /sites/{siteId}/projects/{projectId}": {
+    action: "View",
+    resourceType: "Project",
+    resourceIdParam: "projectId",
+    parentParams: { site: "siteId" },
+  },
+  "PUT /sites/{siteId}/projects/{projectId}": {
+    action: "Edit",
+    resourceType: "Project",
+    resourceIdParam: "projectId",
+    parentParams: { site: "siteId" },
+  },
+  "DELETE /sites/{siteId}/projects/{projectId}": {
+    action: "Delete",
+    resourceType: "Project",
+    resourceIdParam: "projectId",
+    parentParams: { site: "siteId" },
+  },
+
+  // Models (children of a site)
+  "POST /sites/{siteId}/models": { action: "Create", resourceType: "Site", resourceIdParam: "siteId" },
+  "GET /sites/{siteId}/models/{modelId}": {
+    action: "View",
+    resourceType: "Model",
+    resourceIdParam: "modelId",
+    parentParams: { site: "siteId" },
+  },
+  "PUT /sites/{siteId}/models/{modelId}": {
+    action: "Edit",
+    resourceType: "Model",
+    resourceIdParam: "modelId",
+    parentParams: { site: "siteId" },
+  },
+
+  // Cohorts
+  "GET /cohorts/{cohortId}": { action: "View", resourceType: "Cohort", resourceIdParam: "cohortId" },
+  "PUT /cohorts/{cohortId}": { action: "Edit", resourceType: "Cohort", resourceIdParam: "cohortId" },
+};
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+interface CompiledRoute {
+  routeKey: string;
+  method: string;
+  pattern: RegExp;
+  params: string[];
+  rule: RouteRule;
+}
+
+function compile(routeKey: string, rule: RouteRule): CompiledRoute {
+  const [method, template] = routeKey.split(" ");
+  const params: string[] = [];
+  const source = template
+    .split("/")
+    .map((segment) => {
+      const param = segment.match(/^\{(\w+)\}$/);
+      if (param) {
+        params.push(param[1]);
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+
+  return { routeKey, method, pattern: new RegExp(`^${source}/?$`), params, rule };
+}
+
+/**
+ * Find the rule for a request.
+ *
+ * API Gateway passes the matched route key ("DELETE /sites/{siteId}") and its
+ * path parameters; for catch-all routes ($default, {proxy+}) the raw method and
+ * path are matched against the map instead. Returns null when no rule matches,
+ * including paths whose parameters aren't valid percent-encoding.
+ */
+export function matchRoute(
+  routeMap: Record<string, RouteRule>,
+  routeKey: string,
+  method: string,
+  rawPath: string,
+  pathParameters: Record<string, string | undefined> = {}
+): MatchedRoute | null {
+  const direct = routeMap[routeKey];
+  if (direct) {
+    const params: Record<string, string> = {};
+    for (const [name, value] of Object.entries(pathParameters)) {
+      if (value !== undefined) params[name] = value;
+    }
+    return { routeKey, rule: direct, pathParameters: params };
+  }
+
+  for (const [key, rule] of Object.entries(routeMap)) {
+    const route = compile(key, rule);
+    if (route.method !== method.toUpperCase()) continue;
+
+    const match = rawPath.match(route.pattern);
+    if (match) {
+      const params: Record<string, string> = {};
+      try {
+        route.params.forEach((name, i) => {
+          params[name] = decodeURIComponent(match[i + 1]);
+        });
+      } catch {
+        // Malformed percent-encoding (e.g. "%E0%A4%A") names no resource: no match, so it's denied
+        return null;
+      }
+      return { routeKey: key, rule, pathParameters: params };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,220 @@
+/**
+ * HierarchyChangeProcessor applying the sample events in fixtures/ to a store
+ * loaded with the mock hierarchy, with access listed from the embedded policies.
+ */
+
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  HierarchyChangeProcessor,
+  HierarchyEvent,
+  HierarchyEventError,
+  parseHierarchyEvent,
+} from "./changes";
+import { buildHierarchySnapshots, InMemoryHierarchyStore } from "../shared/hierarchyStore";
+import { HierarchyNotFoundError, MockHierarchyService } from "../shared/hierarchyService";
+import { LocalPolicyCatalog } from "../shared/policyCatalog";
+import { MOCK_COMPANIES, MOCK_PARTICIPATIONS, MOCK_SITES, Participation } from "../shared/mockData";
+
+function fixture(name: string): HierarchyEvent {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", `${name}.json`), "utf-8"));
+}
+
+function event(detailType: string, detail: unknown): HierarchyEvent {
+  const source = detailType.startsWith("Site") ? "site-service" : "company-service";
+  return { ...fixture("site-moved"), source, "detail-type": detailType, detail };
+}
+
+const ref = (type: string, id: string) => ({ entityType: `Gazebo::${type}`, entityId: id });
+
+describe("HierarchyChangeProcessor", () => {
+  const catalog = new LocalPolicyCatalog();
+  let store: InMemoryHierarchyStore;
+  let processor: HierarchyChangeProcessor;
+
+  const load = async (participations: Participation[] = Object.values(MOCK_PARTICIPATIONS)) => {
+    const { snapshots } = await buildHierarchySnapshots(
+      { companies: Object.values(MOCK_COMPANIES), sites: Object.values(MOCK_SITES), participations },
+      new MockHierarchyService()
+    );
+    store = new InMemoryHierarchyStore(snapshots);
+    processor = new HierarchyChangeProcessor(store, catalog, new MockHierarchyService());
+  };
+
+  beforeEach(() => load());
+
+  describe("fixtures/site-moved.json", () => {
+    it("moves the site to Region 11 and keeps its participation", async () => {
+      const result = await processor.apply(parseHierarchyEvent(fixture("site-moved")));
+
+      assert.strictEqual(result.action, "UpdateSite");
+      assert.deepStrictEqual(result.entity, ref("Site", "portland-manufacturing"));
+      assert.deepStrictEqual(result.previousParents, [ref("Region", "10"), ref("Participation", "part-001")]);
+      assert.deepStrictEqual(result.parents, [ref("Region", "11"), ref("Participation", "part-001")]);
+      assert.strictEqual(result.rebuilt, 1);
+
+      const snapshot = await store.getSnapshot("Site", "portland-manufacturing");
+      assert.ok(snapshot!.chain.nodes.some((n) => n.type === "Region" && n.id === "11"));
+      assert.ok(!snapshot!.chain.nodes.some((n) => n.type === "Region" && n.id === "10"));
+    });
+
+    it("reports that the Region 10 contributor lost access", async () => {
+      const result = await processor.apply(parseHierarchyEvent(fixture("site-moved")));
+
+      assert.deepStrictEqual(result.accessChanges, [
+        {
+          userId: "dan@cascade.com",
+          before: { level: "contributor", actions: ["View", "Edit"] },
+          after: null,
+        },
+      ]);
+    });
+
+    it("keeps ended participations in the rebuilt snapshot", async () => {
+      const ended: Participation = {
+        participationId: "part-ended",
+        cohortId: "bpa-cohort-2024",
+        siteId: "portland-manufacturing",
+        leaveDate: "2020-01-01",
+      };
+      await load([...Object.values(MOCK_PARTICIPATIONS), ended]);
+
+      const result = await processor.apply(parseHierarchyEvent(fixture("site-moved")));
+
+      const snapshot = await store.getSnapshot("Site", "portland-manufacturing");
+      assert.deepStrictEqual(
+        snapshot!.participations!.map((p) => p.participationId),
+        ["part-001", "part-ended"]
+      );
+      // ...but only the active one is a parent
+      assert.deepStrictEqual(result.parents, [ref("Region", "11"), ref("Participation", "part-001")]);
+    });
+  });
+
+  describe("fixtures/region-reparented.json", () => {
+    it("moves Region 201 under Organization 1 and rebuilds its sites", async () => {
+      const result = await processor.apply(parseHierarchyEvent(fixture("region-reparented")));
+
+      assert.strictEqual(result.action, "UpdateCompany");
+      assert.deepStrictEqual(result.previousParents, [ref("Organization", "200")]);
+      assert.deepStrictEqual(result.parents, [ref("Organization", "1")]);
+      // The Region and both of its sites
+      assert.strictEqual(result.rebuilt, 3);
+
+      for (const siteId of ["goodwill-happy-valley", "goodwill-downtown"]) {
+        const snapshot = await store.getSnapshot("Site", siteId);
+        const orgs = snapshot!.chain.nodes.filter((n) => n.type === "Organization").map((n) => n.id);
+        assert.deepStrictEqual(orgs, ["1"], siteId);
+      }
+    });
+
+    it("converges when the event is retried after a failure partway", async () => {
+      const organizations = async (siteId: string) => {
+        const snapshot = await store.getSnapshot("Site", siteId);
+        return snapshot!.chain.nodes.filter((n) => n.type === "Organization").map((n) => n.id);
+      };
+      const put = store.putSnapshot.bind(store);
+      let writes = 0;
+      // The Region is written, then the first of its sites fails
+      store.putSnapshot = async (snapshot) => {
+        if (++writes === 2) throw new Error("ProvisionedThroughputExceededException");
+        return put(snapshot);
+      };
+
+      await assert.rejects(processor.apply(parseHierarchyEvent(fixture("region-reparented"))));
+      assert.deepStrictEqual(await organizations("goodwill-happy-valley"), ["200"]);
+      assert.deepStrictEqual(await organizations("goodwill-downtown"), ["200"]);
+
+      const retried = await processor.apply(parseHierarchyEvent(fixture("region-reparented")));
+
+      assert.strictEqual(retried.rebuilt, 3);
+      assert.deepStrictEqual(await organizations("goodwill-happy-valley"), ["1"]);
+      assert.deepStrictEqual(await organizations("goodwill-downtown"), ["1"]);
+    });
+
+    it("reports that the Organization 1 viewer gained access", async () => {
+      const result = await processor.apply(parseHierarchyEvent(fixture("region-reparented")));
+
+      assert.deepStrictEqual(result.accessChanges, [
+        { userId: "eve@cascade.com", before: null, after: { level: "viewer", actions: ["View"] } },
+      ]);
+    });
+  });
+
+  describe("events that can't be applied", () => {
+    it("rejects a site moved to a Region that isn't in the store", async () => {
+      const change = parseHierarchyEvent(
+        event("Site Updated", { siteId: "boston-office", name: "Boston", companyId: "region:999" })
+      );
+
+      await assert.rejects(processor.apply(change), (error: Error) => {
+        assert.ok(error instanceof HierarchyNotFoundError);
+        assert.strictEqual(error.message, "Region not found: 999");
+        return true;
+      });
+    });
+
+    it("rejects deleting a Region that still has sites", async () => {
+      const change = parseHierarchyEvent(event("Company Deleted", { companyId: 10 }));
+
+      await assert.rejects(processor.apply(change), (error: Error) => {
+        assert.ok(error instanceof HierarchyEventError);
+        assert.strictEqual(error.message, "Region 10 still has 2 children");
+        return true;
+      });
+      assert.ok(await store.getSnapshot("Region", "10"));
+    });
+
+    it("rejects an event with missing fields", () => {
+      assert.throws(
+        () => parseHierarchyEvent(event("Site Updated", { siteId: "boston-office" })),
+        (error: Error) => {
+          assert.ok(error instanceof HierarchyEventError);
+          assert.deepStrictEqual(
+            error.issues.map((i) => i.field),
+            ["detail.name", "detail.companyId"]
+          );
+          return true;
+        }
+      );
+    });
+
+    it("rejects company IDs that aren't integers instead of writing Region#NaN", () => {
+      for (const companyId of ["abc", "", "1.5", false, null]) {
+        assert.throws(
+          () => parseHierarchyEvent(event("Company Updated", { companyId, name: "West", parentId: 1 })),
+          {
+            name: "HierarchyEventError",
+            issues: [{ field: "detail.companyId", message: "Required integer company ID" }],
+          },
+          `companyId ${JSON.stringify(companyId)}`
+        );
+      }
+    });
+
+    it("rejects parent IDs that would read as company 0", () => {
+      for (const parentId of ["", false, [], "abc"]) {
+        assert.throws(
+          () => parseHierarchyEvent(event("Company Updated", { companyId: 10, name: "West", parentId })),
+          {
+            name: "HierarchyEventError",
+            issues: [{ field: "detail.parentId", message: "Required company ID, or null for an Organization" }],
+          },
+          `parentId ${JSON.stringify(parentId)}`
+        );
+      }
+    });
+
+    it("accepts company IDs sent as digit strings", () => {
+      const detail = { companyId: "10", name: "West", parentId: "1" };
+      const change = parseHierarchyEvent(event("Company Updated", detail));
+
+      assert.deepStrictEqual(change, {
+        type: "Company Updated",
+        company: { companyId: 10, name: "West", parentId: 1 },
+      });
+    });
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Hierarchy Changes - Applies site and company change events to the hierarchy store.
+ *
+ * site-service and company-service publish EventBridge events when a record
+ * changes:
+ *
+ *   source            detail-type        detail
+ *   site-service      "Site Updated"     Site record    { siteId, name, companyId: "region:11", ... }
+ *   site-service      "Site Deleted"     { siteId }
+ *   company-service   "Company Updated"  Company record { companyId, name, parentId }
+ *   company-service   "Company Deleted"  { companyId }
+ *
+ * An update rewrites the entity's snapshot and every snapshot below it (a
+ * re-parented Region rebuilds its Sites). The writes are one at a time, not a
+ * transaction: if the function fails partway, snapshots below the entity keep
+ * the old chain until EventBridge retries the event. Applying an event again is
+ * harmless - it rewrites the same snapshots from the stored entity down - so
+ * the store converges on the retry (whose audit record then shows no access
+ * changes, as the entity already had its new parents). The users whose
+ * effective access changed are found by listing the assignments on the
+ * entity's ancestors (findUsersWithAccess) before and after the change.
+ *
+ * Events that can't be applied as sent (malformed, a company switching between
+ * Region and Organization, deleting a company that still has children) raise
+ * HierarchyEventError; retrying them won't help.
+ */
+
+import { EventBridgeEvent } from "aws-lambda";
+import { Company, Site } from "../shared/mockData";
+import { ValidationIssue } from "../shared/types";
+import { EntityRef } from "../shared/localPolicies";
+import { AccessChange, AccessSummary } from "../shared/auditLog";
+import { findUsersWithAccess } from "../shared/accessLookup";
+import { IPolicyCatalog } from "../shared/policyCatalog";
+import {
+  HierarchyChain,
+  HierarchyNotFoundError,
+  IHierarchyService,
+  StoreHierarchyService,
+  toCompanyId,
+} from "../shared/hierarchyService";
+import {
+  companySnapshot,
+  currentChain,
+  HierarchySnapshot,
+  HierarchySnapshotType,
+  IHierarchyStore,
+  siteCompany,
+  siteSnapshot,
+} from "../shared/hierarchyStore";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const HIERARCHY_EVENT_SOURCES = ["site-service", "company-service"];
+
+export const HIERARCHY_EVENT_TYPES = ["Site Updated", "Site Deleted", "Company Updated", "Company Deleted"];
+
+export type HierarchyEvent = EventBridgeEvent<string, unknown>;
+
+export type HierarchyChange =
+  | { type: "Site Updated"; site: Site }
+  | { type: "Site Deleted"; siteId: string }
+  | { type: "Company Updated"; company: Company }
+  | { type: "Company Deleted"; companyId: string };
+
+export interface HierarchyChangeResult {
+  /** Audit action, e.g. "UpdateSite" */
+  action: string;
+  entity: EntityRef;
+  /** The entity's direct parents before and after (empty when it didn't / doesn't exist) */
+  previousParents: EntityRef[];
+  parents: EntityRef[];
+  /** Snapshots written or deleted: the entity and everything below it */
+  rebuilt: number;
+  accessChanges: AccessChange[];
+}
+
+/**
+ * Raised for events that can't be applied as sent.
+ */
+export class HierarchyEventError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = "HierarchyEventError";
+  }
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Validate an EventBridge event and extract the change it describes.
+ *
+ * @throws HierarchyEventError
+ */
+export function parseHierarchyEvent(event: HierarchyEvent): HierarchyChange {
+  const type = event["detail-type"];
+  if (!HIERARCHY_EVENT_SOURCES.includes(event.source) || !HIERARCHY_EVENT_TYPES.includes(type)) {
+    throw new HierarchyEventError(`Unsupported event: ${event.source} "${type}"`);
+  }
+
+  const detail = isRecord(event.detail) ? event.detail : {};
+  const issues: ValidationIssue[] = [];
+  const require = (field: string, valid: boolean, message: string) => {
+    if (!valid) issues.push({ field: `detail.${field}`, message });
+  };
+
+  let change: HierarchyChange;
+  switch (type) {
+    case "Site Updated":
+    case "Site Deleted":
+      require("siteId", nonEmptyString(detail.siteId), "Required string");
+      if (type === "Site Deleted") {
+        change = { type: "Site Deleted", siteId: detail.siteId as string };
+        break;
+      }
+      require("name", nonEmptyString(detail.name), "Required string");
+      require(
+        "companyId",
+        typeof detail.companyId === "string" && /^(organization|region):\d+$/.test(detail.companyId),
+        'Expected "organization:<id>" or "region:<id>"'
+      );
+      change = {
+        type: "Site Updated",
+        site: {
+          siteId: detail.siteId as string,
+          name: detail.name as string,
+          companyId: detail.companyId as string,
+          timezone: typeof detail.timezone === "string" ? detail.timezone : "",
+        },
+      };
+      break;
+
+    default: {
+      const companyId = toCompanyId(detail.companyId);
+      require("companyId", companyId !== null, "Required integer company ID");
+      if (type === "Company Deleted") {
+        change = { type: "Company Deleted", companyId: String(companyId) };
+        break;
+      }
+      const parentId = detail.parentId === null ? null : toCompanyId(detail.parentId);
+      require("name", nonEmptyString(detail.name), "Required string");
+      require(
+        "parentId",
+        detail.parentId === null || parentId !== null,
+        "Required company ID, or null for an Organization"
+      );
+      change = {
+        type: "Company Updated",
+        company: { companyId: companyId as number, name: detail.name as string, parentId },
+      };
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new HierarchyEventError(`Invalid "${type}" event`, issues);
+  }
+  return change;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toRef(type: string, id: string): EntityRef {
+  return { entityType: `Gazebo::${type}`, entityId: id };
+}
+
+function parentsOf(snapshot: HierarchySnapshot | null): EntityRef[] {
+  const chain = snapshot ? currentChain(snapshot) : null;
+  return (chain?.nodes[0]?.parents || []).map((p) => toRef(p.type, p.id));
+}
+
+function sameAccess(a: AccessSummary | null, b: AccessSummary | null): boolean {
+  return a?.level === b?.level && (a?.actions || []).join() === (b?.actions || []).join();
+}
+
+/**
+ * Users whose level or actions differ between two access listings.
+ */
+function diffAccess(before: Map<string, AccessSummary>, after: Map<string, AccessSummary>): AccessChange[] {
+  const userIds = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+  return userIds
+    .map((userId) => ({ userId, before: before.get(userId) ?? null, after: after.get(userId) ?? null }))
+    .filter((change) => !sameAccess(change.before, change.after));
+}
+
+// =============================================================================
+// PROCESSOR
+// =============================================================================
+
+export class HierarchyChangeProcessor {
+  private hierarchy: IHierarchyService;
+
+  /**
+   * @param store - Hierarchy store to update
+   * @param catalog - Policy catalog the assignments are listed from
+   * @param programs - Hierarchy service for program-layer chains above Participations
+   */
+  constructor(
+    private store: IHierarchyStore,
+    private catalog: IPolicyCatalog,
+    programs: IHierarchyService
+  ) {
+    this.hierarchy = new StoreHierarchyService(store, programs);
+  }
+
+  /**
+   * Apply a change to the store and report whose access it changed.
+   *
+   * @throws HierarchyEventError, HierarchyNotFoundError (parent not in the store yet)
+   */
+  async apply(change: HierarchyChange): Promise<HierarchyChangeResult> {
+    switch (change.type) {
+      case "Site Updated":
+        return this.updateSite(change.site);
+      case "Site Deleted":
+        return this.delete("DeleteSite", "Site", change.siteId);
+      case "Company Updated":
+        return this.updateCompany(change.company);
+      case "Company Deleted": {
+        const region = await this.store.getSnapshot("Region", change.companyId);
+        return this.delete("DeleteCompany", region ? "Region" : "Organization", change.companyId);
+      }
+    }
+  }
+
+  private async updateSite(site: Site): Promise<HierarchyChangeResult> {
+    const company = siteCompany(site);
+    const parent = await this.store.getSnapshot(company.type, company.id);
+    if (!parent) {
+      throw new HierarchyNotFoundError(company.type, company.id);
+    }
+
+    const previous = await this.store.getSnapshot("Site", site.siteId);
+    return this.replace("UpdateSite", "Site", site.siteId, previous, async () => {
+      const snapshot = await this.rebuildSite(site, parent.chain, previous);
+      await this.store.putSnapshot(snapshot);
+      return snapshot;
+    });
+  }
+
+  private async updateCompany(company: Company): Promise<HierarchyChangeResult> {
+    const id = String(company.companyId);
+    const type = company.parentId === null ? "Organization" : "Region";
+    const otherType = type === "Region" ? "Organization" : "Region";
+
+    // Sites address their company as "region:X" or "organization:X", so the type can't change under them
+    if (await this.store.getSnapshot(otherType, id)) {
+      throw new HierarchyEventError(`Company ${id} is an ${otherType} and can't become a ${type}`);
+    }
+
+    let orgChain: HierarchyChain | undefined;
+    if (company.parentId !== null) {
+      const org = await this.store.getSnapshot("Organization", String(company.parentId));
+      if (!org) {
+        throw new HierarchyNotFoundError("Organization", String(company.parentId));
+      }
+      orgChain = org.chain;
+    }
+
+    const previous = await this.store.getSnapshot(type, id);
+    return this.replace("UpdateCompany", type, id, previous, async () => {
+      const snapshot = companySnapshot(company, orgChain);
+      await this.store.putSnapshot(snapshot);
+      return snapshot;
+    });
+  }
+
+  private async delete(
+    action: string,
+    type: HierarchySnapshotType,
+    id: string
+  ): Promise<HierarchyChangeResult> {
+    const children = await this.store.listChildren(type, id);
+    if (children.length > 0) {
+      throw new HierarchyEventError(
+        `${type} ${id} still has ${children.length} children`,
+        children.map((c) => ({ field: `${c.entityType}#${c.entityId}`, message: `Belongs to ${type} ${id}` }))
+      );
+    }
+
+    const previous = await this.store.getSnapshot(type, id);
+    return this.replace(action, type, id, previous, async () => {
+      if (previous) await this.store.deleteSnapshot(type, id);
+      return null;
+    });
+  }
+
+  /**
+   * Write the entity's new snapshot (or delete it), rebuild everything below
+   * it, and diff access on the entity before and after. Not atomic: an error
+   * part way through is thrown for EventBridge to retry the whole event.
+   */
+  private async replace(
+    action: string,
+    type: HierarchySnapshotType,
+    id: string,
+    previous: HierarchySnapshot | null,
+    write: () => Promise<HierarchySnapshot | null>
+  ): Promise<HierarchyChangeResult> {
+    const before = previous ? await this.listAccess(type, id) : new Map<string, AccessSummary>();
+    const snapshot = await write();
+    const rebuilt = (previous || snapshot ? 1 : 0) + (snapshot ? await this.rebuildBelow(snapshot) : 0);
+    const after = snapshot ? await this.listAccess(type, id) : new Map<string, AccessSummary>();
+
+    return {
+      action,
+      entity: toRef(type, id),
+      previousParents: parentsOf(previous),
+      parents: parentsOf(snapshot),
+      rebuilt,
+      accessChanges: diffAccess(before, after),
+    };
+  }
+
+  /**
+   * Rewrite every snapshot below `parent` on top of its new chain.
+   * Returns the number of snapshots written.
+   */
+  private async rebuildBelow(parent: HierarchySnapshot): Promise<number> {
+    let rebuilt = 0;
+    for (const child of await this.store.listChildren(parent.entityType, parent.entityId)) {
+      let snapshot: HierarchySnapshot;
+      if (child.entityType === "Site" && child.site) {
+        snapshot = await this.rebuildSite(child.site, parent.chain, child);
+      } else if (child.entityType === "Region" && child.company) {
+        snapshot = companySnapshot(child.company, parent.chain);
+      } else {
+        continue;
+      }
+      await this.store.putSnapshot(snapshot);
+      rebuilt += 1 + (await this.rebuildBelow(snapshot));
+    }
+    return rebuilt;
+  }
+
+  /**
+   * A site's snapshot on top of a new company chain, keeping its participations.
+   */
+  private async rebuildSite(
+    site: Site,
+    companyChain: HierarchyChain,
+    previous: HierarchySnapshot | null
+  ): Promise<HierarchySnapshot> {
+    const participations = [];
+    for (const participation of previous?.participations || []) {
+      const stored = await this.store.getSnapshot("Participation", participation.participationId);
+      if (stored) {
+        participations.push({ participation, chain: stored.chain });
+      } else {
+        console.warn(
+          `Dropping participation ${participation.participationId} of site ${site.siteId}: not in the store`
+        );
+      }
+    }
+    return siteSnapshot(site, companyChain, participations);
+  }
+
+  /**
+   * Effective access per user on an entity, from the assignments on it and its ancestors.
+   */
+  private async listAccess(type: HierarchySnapshotType, id: string): Promise<Map<string, AccessSummary>> {
+    const resource = { resourceType: type, resourceId: id };
+    const access = await findUsersWithAccess(resource, this.catalog, this.hierarchy);
+    return new Map(access.users.map((u) => [u.userId, { level: u.effectiveLevel, actions: u.actions }]));
+  }
+}
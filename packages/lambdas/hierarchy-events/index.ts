@@ -0,0 +1,104 @@
+/**
+ * Hierarchy Events - Keeps the hierarchy store in step with site-service and
+ * company-service.
+ *
+ * Consumes the EventBridge events described in changes.ts. For each one it:
+ *   1. Rewrites the entity's snapshot and everything below it (HIERARCHY_TABLE)
+ *   2. Bumps the hierarchy version, so authorize-api and the authorizer drop
+ *      their cached hierarchy within HIERARCHY_VERSION_CHECK_INTERVAL_MS
+ *   3. Writes a "hierarchy-change" audit record with the users whose effective
+ *      access the change granted, removed or altered
+ *
+ * Events that can't be applied (HierarchyEventError) are audited and returned
+ * as rejected; anything else is thrown so EventBridge retries the event.
+ *
+ * fixtures/ holds sample events, which can be passed to processHierarchyEvent
+ * in-process or sent to the deployed function:
+ *
+ *   aws lambda invoke --function-name <HierarchyEventsFunctionName> \
+ *     --cli-binary-format raw-in-base64-out --payload file://fixtures/site-moved.json out.json
+ */
+
+import { createPolicyCatalog } from "../shared/policyCatalog";
+import { AuthorizationEngineType } from "../shared/authorizationEngine";
+import { MockHierarchyService } from "../shared/hierarchyService";
+import { hierarchyStore, hierarchyVersionStore } from "../shared/hierarchyStore";
+import { AuditLogger } from "../shared/auditLog";
+import { metrics } from "../shared/metrics";
+import {
+  HierarchyChangeProcessor,
+  HierarchyChangeResult,
+  HierarchyEvent,
+  HierarchyEventError,
+  parseHierarchyEvent,
+} from "./changes";
+
+// Access is listed from the same policy set the authorizers evaluate (AUTHORIZATION_ENGINE)
+const processor = new HierarchyChangeProcessor(
+  hierarchyStore,
+  createPolicyCatalog((process.env.AUTHORIZATION_ENGINE || "avp") as AuthorizationEngineType),
+  new MockHierarchyService()
+);
+
+const audit = new AuditLogger("hierarchy-events");
+
+export type HierarchyEventResult =
+  | ({ status: "applied"; hierarchyVersion: number | null } & HierarchyChangeResult)
+  | { status: "rejected"; error: string; issues: HierarchyEventError["issues"] };
+
+/**
+ * Cached hierarchy is cleared through the version, so a failed bump is
+ * logged rather than retried - cached entries still expire on their TTL.
+ */
+async function recordHierarchyChange(): Promise<number | null> {
+  try {
+    return await hierarchyVersionStore.bump();
+  } catch (error) {
+    console.warn("Failed to bump hierarchy version:", error);
+    return null;
+  }
+}
+
+export async function processHierarchyEvent(event: HierarchyEvent): Promise<HierarchyEventResult> {
+  const startTime = Date.now();
+
+  try {
+    const result = await processor.apply(parseHierarchyEvent(event));
+    const hierarchyVersion = await recordHierarchyChange();
+
+    await audit.log({
+      type: "hierarchy-change",
+      correlationId: event.id,
+      action: result.action,
+      resource: result.entity,
+      latencyMs: Date.now() - startTime,
+      hierarchyChange: {
+        previousParents: result.previousParents,
+        parents: result.parents,
+        rebuilt: result.rebuilt,
+        accessChanges: result.accessChanges,
+      },
+    });
+
+    return { status: "applied", hierarchyVersion, ...result };
+  } catch (error) {
+    if (!(error instanceof HierarchyEventError)) throw error;
+
+    console.error("Rejected hierarchy event:", error.message, JSON.stringify(error.issues));
+    await audit.log({
+      type: "hierarchy-change",
+      correlationId: event.id,
+      action: event["detail-type"],
+      latencyMs: Date.now() - startTime,
+      error: error.message,
+    });
+    return { status: "rejected", error: error.message, issues: error.issues };
+  }
+}
+
+// Requests / Errors / RequestLatency per event, then flush buffered metrics
+export const handler = async (event: HierarchyEvent): Promise<HierarchyEventResult> =>
+  metrics.invocation(
+    () => processHierarchyEvent(event),
+    (result) => result.status === "rejected"
+  );
@@ -0,0 +1,57 @@
+/**
+ * Hierarchy Loader - Builds the hierarchy store from company and site records.
+ *
+ * Writes one snapshot per Organization, Region, Site and Participation in
+ * mockData.ts to the hierarchy store (HIERARCHY_TABLE), replacing whatever is
+ * there for those entities. Invoke it once after deploying, or whenever the
+ * mock data changes:
+ *
+ *   aws lambda invoke --function-name <HierarchyLoaderFunctionName> out.json
+ *
+ * Records that reference a missing parent are skipped and listed in the result.
+ */
+
+import { MOCK_COMPANIES, MOCK_PARTICIPATIONS, MOCK_SITES } from "../shared/mockData";
+import { MockHierarchyService } from "../shared/hierarchyService";
+import {
+  buildHierarchySnapshots,
+  hierarchyStore,
+  HierarchySnapshotType,
+  IHierarchyStore,
+} from "../shared/hierarchyStore";
+import { ValidationIssue } from "../shared/types";
+
+export interface HierarchyLoadResult {
+  loaded: Partial<Record<HierarchySnapshotType, number>>;
+  skipped: ValidationIssue[];
+}
+
+/**
+ * Build snapshots from the mock company, site and participation records and
+ * write them to `store`.
+ */
+export async function loadHierarchy(store: IHierarchyStore = hierarchyStore): Promise<HierarchyLoadResult> {
+  const { snapshots, skipped } = await buildHierarchySnapshots(
+    {
+      companies: Object.values(MOCK_COMPANIES),
+      sites: Object.values(MOCK_SITES),
+      participations: Object.values(MOCK_PARTICIPATIONS),
+    },
+    new MockHierarchyService()
+  );
+
+  const loaded: HierarchyLoadResult["loaded"] = {};
+  for (const snapshot of snapshots) {
+    await store.putSnapshot(snapshot);
+    loaded[snapshot.entityType] = (loaded[snapshot.entityType] || 0) + 1;
+  }
+
+  if (skipped.length > 0) {
+    console.warn("Skipped hierarchy records:", JSON.stringify(skipped));
+  }
+  console.log("Loaded hierarchy snapshots:", JSON.stringify(loaded));
+
+  return { loaded, skipped };
+}
+
+export const handler = async (): Promise<HierarchyLoadResult> => loadHierarchy();
@@ -6,8 +6,16 @@ import {
   GetPolicyCommand,
   GetPolicyTemplateCommand,
 } from "@aws-sdk/client-verifiedpermissions";
-import { APIGatewayProxyHandlerV2, APIGatewayProxyResultV2 } from "aws-lambda";
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyHandlerV2,
+  APIGatewayProxyResultV2,
+  APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
 import { RoleAssignment } from "../shared/types";
+import { policyVersionStore } from "../shared/policyVersion";
+import { AuditLogger, getCorrelationId } from "../shared/auditLog";
+import { metrics } from "../shared/metrics";
 
 const client = new VerifiedPermissionsClient({});
 const POLICY_STORE_ID = process.env.POLICY_STORE_ID!;
@@ -22,16 +30,37 @@ const TEMPLATES: Record<string, string | undefined> = {
   administrator: process.env.TEMPLATE_ADMINISTRATOR,
 };
 
-const headers = {
+/**
+ * Bump the policy version so authorize-api drops cached decisions.
+ * The policy change has already succeeded, so a failed bump is logged
+ * rather than surfaced - cached entries still expire on their TTL.
+ */
+async function recordPolicyChange(): Promise<void> {
+  try {
+    await policyVersionStore.bump();
+  } catch (error) {
+    console.warn("Failed to bump policy version:", error);
+  }
+}
+
+// Assignment changes use the same audit record format as decisions
+const audit = new AuditLogger("permissions-api");
+
+const corsHeaders = {
   "Content-Type": "application/json",
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Headers": "Content-Type, X-Correlation-Id",
+  "Access-Control-Expose-Headers": "X-Correlation-Id",
   "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
 };
 
-export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatewayProxyResultV2> => {
+const routeRequest = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyStructuredResultV2> => {
   const method = event.requestContext.http.method;
   const path = event.rawPath;
+  const correlationId = getCorrelationId(event.headers);
+  const headers = { ...corsHeaders, "X-Correlation-Id": correlationId };
+  // Caller-reported: this API does not authenticate callers yet
+  const actor = event.headers["x-user-id"];
 
   // Handle CORS preflight
   if (method === "OPTIONS") {
@@ -52,6 +81,8 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
       }
 
       const templateId = TEMPLATES[body.role];
+      const resource = { entityType: `Gazebo::${body.targetType}`, entityId: body.targetId };
+      const started = Date.now();
 
       if (templateId) {
         // Use template instantiation for site-scoped roles (viewer, contributor, coordinator)
@@ -72,7 +103,20 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
           },
         });
 
-        const result = await client.send(command);
+        const result = await metrics.time("AvpLatency", () => client.send(command), {
+          Operation: "CreatePolicy",
+        });
+        await recordPolicyChange();
+        await audit.log({
+          type: "permission-change",
+          correlationId,
+          principal: body.userId,
+          action: "AssignRole",
+          resource,
+          latencyMs: Date.now() - started,
+          change: { policyId: result.policyId, policyType: "template-linked", role: body.role },
+          actor,
+        });
 
         return {
           statusCode: 200,
@@ -106,7 +150,20 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
           },
         });
 
-        const result = await client.send(command);
+        const result = await metrics.time("AvpLatency", () => client.send(command), {
+          Operation: "CreatePolicy",
+        });
+        await recordPolicyChange();
+        await audit.log({
+          type: "permission-change",
+          correlationId,
+          principal: body.userId,
+          action: "AssignRole",
+          resource,
+          latencyMs: Date.now() - started,
+          change: { policyId: result.policyId, policyType: "static", role: body.role },
+          actor,
+        });
 
         return {
           statusCode: 200,
@@ -124,13 +181,38 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
     // DELETE /permissions/assign/{policyId} - Remove role assignment
     if (method === "DELETE" && path.includes("/assign/")) {
       const policyId = path.split("/").pop()!;
+      const started = Date.now();
 
-      await client.send(
-        new DeletePolicyCommand({
-          policyStoreId: POLICY_STORE_ID,
-          policyId,
-        })
+      // Capture who/what the policy covered for the audit record - it's gone afterwards
+      const existing = await client
+        .send(new GetPolicyCommand({ policyStoreId: POLICY_STORE_ID, policyId }))
+        .catch(() => undefined);
+
+      await metrics.time(
+        "AvpLatency",
+        () =>
+          client.send(
+            new DeletePolicyCommand({
+              policyStoreId: POLICY_STORE_ID,
+              policyId,
+            })
+          ),
+        { Operation: "DeletePolicy" }
       );
+      await recordPolicyChange();
+      await audit.log({
+        type: "permission-change",
+        correlationId,
+        principal: existing?.principal?.entityId,
+        action: "RevokeRole",
+        resource:
+          existing?.resource?.entityType && existing.resource.entityId
+            ? { entityType: existing.resource.entityType, entityId: existing.resource.entityId }
+            : undefined,
+        latencyMs: Date.now() - started,
+        change: { policyId, policyType: existing?.policyType },
+        actor,
+      });
 
       return {
         statusCode: 200,
@@ -258,3 +340,10 @@ export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatew
     };
   }
 };
+
+// Requests / Errors / RequestLatency per invocation, then flush buffered metrics
+export const handler: APIGatewayProxyHandlerV2 = async (event): Promise<APIGatewayProxyResultV2> =>
+  metrics.invocation(
+    () => routeRequest(event),
+    (response) => (response.statusCode ?? 200) >= 500
+  );
@@ -0,0 +1,36 @@
+/**
+ * Resource Loader - Seeds the resource registry with the mock resources.
+ *
+ * Writes every record in MOCK_RESOURCES (mockData.ts) to the resource registry
+ * (RESOURCE_REGISTRY_TABLE), so the Projects, Models and Claims the frontend
+ * and test scenarios use resolve their parents and creator after deploying:
+ *
+ *   aws lambda invoke --function-name <ResourceLoaderFunctionName> out.json
+ *
+ * Resources created through the API are registered by the owning service as
+ * they are created, not by this loader.
+ */
+
+import { MOCK_RESOURCES } from "../shared/mockData";
+import { IResourceRegistry, resourceRegistry } from "../shared/resourceRegistry";
+import { ResourceType } from "../shared/types";
+
+export interface ResourceLoadResult {
+  loaded: Partial<Record<ResourceType, number>>;
+}
+
+/**
+ * Write the mock resources to `registry`, replacing existing records with the same IDs.
+ */
+export async function loadResources(registry: IResourceRegistry = resourceRegistry): Promise<ResourceLoadResult> {
+  const loaded: ResourceLoadResult["loaded"] = {};
+  for (const resource of MOCK_RESOURCES) {
+    await registry.putResource(resource);
+    loaded[resource.resourceType] = (loaded[resource.resourceType] || 0) + 1;
+  }
+
+  console.log("Loaded registered resources:", JSON.stringify(loaded));
+  return { loaded };
+}
+
+export const handler = async (): Promise<ResourceLoadResult> => loadResources();
@@ -0,0 +1,215 @@
+/**
+ * Access Lookup - Answers "who has access to this resource?"
+ *
+ * Works backwards from the resource instead of evaluating a decision per user:
+ *   1. Resolve the resource's ancestors with buildEntities (IHierarchyService),
+ *      e.g. Project → Site → Region → Organization → System
+ *   2. Collect the template-linked assignments bound to the resource and each ancestor
+ *   3. Reduce them to one entry per user: the most privileged level, and the
+ *      assignment that grants it (nearest wins between equal levels)
+ *
+ * Static policies aren't tied to a user, so they can't be listed per user.
+ * Those that can apply (e.g. creator-privilege.cedar) are returned separately
+ * as conditional grants, with their condition.
+ */
+
+import { Action, AuthRequest, PermissionLevel, PERMISSION_LEVELS, ResourceType } from "./types";
+import { EntityRef } from "./localPolicies";
+import { buildEntities } from "./entities";
+import { resolveAncestorPaths } from "./ancestorPaths";
+import { hierarchyService, IHierarchyService } from "./hierarchyService";
+import {
+  ALL_ACTIONS,
+  IPolicyCatalog,
+  parseTemplateActions,
+  PolicyDescription,
+} from "./policyCatalog";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AccessLookupRequest = Omit<AuthRequest, "userId" | "action"> & {
+  /** Only list users (and conditional grants) that allow this action */
+  action?: Action;
+};
+
+export interface AccessGrant {
+  policyId: string;
+  level: PermissionLevel | string;
+  resource: EntityRef;
+  /** Steps from the requested resource to the assignment's resource (0 = the resource itself) */
+  distance: number;
+  actions: Action[];
+}
+
+export interface UserAccess {
+  userId: string;
+  /** Most privileged level the user holds on this resource */
+  effectiveLevel: PermissionLevel | string;
+  /** Union of actions across all of the user's assignments */
+  actions: Action[];
+  /** The assignment that grants effectiveLevel */
+  grantedBy: AccessGrant;
+  /** Every assignment the user holds in this hierarchy, nearest first */
+  assignments: AccessGrant[];
+}
+
+export interface ConditionalGrant {
+  policyId: string;
+  description?: string;
+  actions: Action[];
+  /** The policy's when/unless clause, if any */
+  condition?: string;
+  statement: string;
+}
+
+export interface AccessLookupResult {
+  resource: EntityRef;
+  action?: Action;
+  /** Ancestors searched for assignments, nearest first (excluding the resource itself) */
+  ancestors: EntityRef[];
+  users: UserAccess[];
+  conditionalGrants: ConditionalGrant[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function refKey(ref: EntityRef): string {
+  return `${ref.entityType}::${ref.entityId}`;
+}
+
+function levelRank(level: string): number {
+  const rank = PERMISSION_LEVELS.indexOf(level as PermissionLevel);
+  return rank === -1 ? PERMISSION_LEVELS.length : rank;
+}
+
+/**
+ * Every entity the resource is `in`, with its shortest distance from the resource.
+ */
+async function resolveAncestors(
+  req: AccessLookupRequest,
+  hierarchy: IHierarchyService
+): Promise<Map<string, { ref: EntityRef; distance: number }>> {
+  // buildEntities needs a principal; it doesn't affect the resource's ancestors
+  const entities = await buildEntities({ ...req, userId: "", action: "View" }, hierarchy);
+  const resource = { entityType: `Gazebo::${req.resourceType}`, entityId: req.resourceId };
+
+  const ancestors = new Map<string, { ref: EntityRef; distance: number }>();
+  for (const path of resolveAncestorPaths(entities.entityList, resource)) {
+    path.forEach((ref, distance) => {
+      const existing = ancestors.get(refKey(ref));
+      if (!existing || distance < existing.distance) {
+        ancestors.set(refKey(ref), { ref, distance });
+      }
+    });
+  }
+  return ancestors;
+}
+
+/**
+ * Whether a static policy can apply to this resource type and action.
+ * Only the policy scope is checked - conditions are returned, not evaluated.
+ */
+function staticPolicyApplies(policy: PolicyDescription, resourceType: ResourceType, action?: Action): boolean {
+  const typeScope = policy.statement.match(/\bresource\s+is\s+Gazebo::(\w+)/);
+  if (typeScope && typeScope[1] !== resourceType) return false;
+  return !action || parseTemplateActions(policy.statement).includes(action);
+}
+
+function extractCondition(statement: string): string | undefined {
+  const match = statement.match(/\b(when|unless)\s*\{([\s\S]*)\}\s*;?\s*$/);
+  return match ? `${match[1]} { ${match[2].trim()} }` : undefined;
+}
+
+// =============================================================================
+// ACCESS LOOKUP
+// =============================================================================
+
+/**
+ * List the users with access to a resource, and the static policies that may
+ * grant access conditionally.
+ *
+ * @param req - Resource (with parents like AuthRequest) and optional action
+ * @param catalog - Policy catalog matching the authorization engine
+ * @param hierarchy - Hierarchy service used to resolve ancestors
+ */
+export async function findUsersWithAccess(
+  req: AccessLookupRequest,
+  catalog: IPolicyCatalog,
+  hierarchy: IHierarchyService = hierarchyService
+): Promise<AccessLookupResult> {
+  const ancestors = await resolveAncestors(req, hierarchy);
+  const searched = Array.from(ancestors.values()).sort((a, b) => a.distance - b.distance);
+
+  const templateActions = new Map<string, Action[]>();
+  const actionsFor = async (level: string): Promise<Action[]> => {
+    if (!templateActions.has(level)) {
+      templateActions.set(level, await catalog.getTemplateActions(level as PermissionLevel));
+    }
+    return templateActions.get(level)!;
+  };
+
+  // Assignments bound to the resource or any ancestor
+  const bound = await Promise.all(
+    searched.map(async ({ ref, distance }) =>
+      (await catalog.listResourceAssignments(ref)).map((policy) => ({ policy, distance }))
+    )
+  );
+
+  const byUser = new Map<string, AccessGrant[]>();
+  for (const { policy, distance } of bound.flat()) {
+    if (policy.principal?.entityType !== "Gazebo::User") continue;
+
+    const level = policy.templateName || "unknown";
+    const grant: AccessGrant = {
+      policyId: policy.policyId,
+      level,
+      resource: policy.resource!,
+      distance,
+      actions: await actionsFor(level),
+    };
+    if (req.action && !grant.actions.includes(req.action)) continue;
+
+    const grants = byUser.get(policy.principal.entityId) || [];
+    grants.push(grant);
+    byUser.set(policy.principal.entityId, grants);
+  }
+
+  const users: UserAccess[] = Array.from(byUser.entries()).map(([userId, grants]) => {
+    grants.sort((a, b) => a.distance - b.distance);
+    const grantedBy = grants.reduce((best, g) => (levelRank(g.level) < levelRank(best.level) ? g : best));
+    const actions = new Set(grants.flatMap((g) => g.actions));
+
+    return {
+      userId,
+      effectiveLevel: grantedBy.level,
+      actions: ALL_ACTIONS.filter((a) => actions.has(a)),
+      grantedBy,
+      assignments: grants,
+    };
+  });
+  users.sort(
+    (a, b) => levelRank(a.effectiveLevel) - levelRank(b.effectiveLevel) || a.userId.localeCompare(b.userId)
+  );
+
+  const conditionalGrants = (await catalog.listStaticPolicies())
+    .filter((policy) => staticPolicyApplies(policy, req.resourceType, req.action))
+    .map((policy) => ({
+      policyId: policy.policyId,
+      description: policy.description,
+      actions: parseTemplateActions(policy.statement),
+      condition: extractCondition(policy.statement),
+      statement: policy.statement,
+    }));
+
+  return {
+    resource: { entityType: `Gazebo::${req.resourceType}`, entityId: req.resourceId },
+    action: req.action,
+    ancestors: searched.filter((a) => a.distance > 0).map((a) => a.ref),
+    users,
+    conditionalGrants,
+  };
+}
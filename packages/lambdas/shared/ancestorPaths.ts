@@ -0,0 +1,62 @@
+/**
+ * Ancestor Paths - Walks the parent links of an entity list.
+ *
+ * Kept free of runtime imports so modules that only read built entity lists
+ * (the audit log in permissions-api) don't bundle buildEntities and the
+ * hierarchy and registry modules behind it.
+ */
+
+import type { EntityIdentifier, EntityItem } from "@aws-sdk/client-verifiedpermissions";
+
+type EntityRef = { entityType: string; entityId: string };
+
+function entityKey(ref: EntityIdentifier): string {
+  return `${ref.entityType}::${ref.entityId}`;
+}
+
+// A parent link without a type or ID names no entity to walk to
+function isEntityRef(ref: EntityIdentifier): ref is EntityRef {
+  return !!ref.entityType && !!ref.entityId;
+}
+
+/**
+ * Walk the parents in an entity list from one entity up to the roots.
+ *
+ * Returns every ancestor path, each starting at `start`, e.g.
+ *   [Project::"p1", Site::"portland-manufacturing", Region::"10", Organization::"1", System::"gazebo"]
+ * An entity with several parents (Site → Region and Site → Participation)
+ * produces one path per parent.
+ *
+ * @param entityList - Entities as built by buildEntities()
+ * @param start - Entity to start from (usually the resource)
+ */
+export function resolveAncestorPaths(entityList: EntityItem[], start: EntityRef): EntityRef[][] {
+  const byKey = new Map<string, EntityItem>();
+  for (const entity of entityList) {
+    if (entity.identifier) byKey.set(entityKey(entity.identifier), entity);
+  }
+
+  const paths: EntityRef[][] = [];
+
+  const walk = (node: EntityRef, path: EntityRef[]) => {
+    const key = entityKey(node);
+    // Guard against cycles in caller-supplied parents
+    if (path.some((p) => entityKey(p) === key)) {
+      paths.push(path);
+      return;
+    }
+
+    const current = [...path, { entityType: node.entityType, entityId: node.entityId }];
+    const parents = (byKey.get(key)?.parents || []).filter(isEntityRef);
+    if (parents.length === 0) {
+      paths.push(current);
+      return;
+    }
+    for (const parent of parents) {
+      walk(parent, current);
+    }
+  };
+
+  walk(start, []);
+  return paths;
+}
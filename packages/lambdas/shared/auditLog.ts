@@ -0,0 +1,280 @@
+/**
+ * Audit Log - Structured records of every decision and permission change.
+ *
+ * One record format covers all three:
+ *   - "decision":          written by AuditingAuthorizationEngine for every
+ *                          result an engine returns (or fails to return)
+ *   - "permission-change": written by permissions-api when an assignment is
+ *                          created or deleted
+ *   - "hierarchy-change":  written by hierarchy-events when a site or company
+ *                          changes, with the users whose access it changed
+ *
+ * Every record carries the request's correlation ID, taken from the
+ * X-Correlation-Id header or generated, and echoed back in the response.
+ *
+ * Records go to a pluggable sink, selected with AUDIT_SINK:
+ *   "stdout" (default) - one JSON line per record (CloudWatch Logs)
+ *   "file"             - appended as JSON lines to AUDIT_LOG_FILE
+ *   "memory"           - kept in memory (tests)
+ *   "none"             - discarded
+ */
+
+import { randomUUID } from "crypto";
+import { appendFile } from "fs/promises";
+import { resolveAncestorPaths } from "./ancestorPaths";
+// Types only, so permissions-api doesn't bundle the engines
+import type { EntityRef } from "./localPolicies";
+import type {
+  AuthorizationEngineType,
+  AuthorizationEntities,
+  AuthorizationQuery,
+  AuthorizationResult,
+  IAuthorizationEngine,
+} from "./authorizationEngine";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AuditRecordType = "decision" | "permission-change" | "hierarchy-change";
+
+/** A user's effective access on a resource: most privileged level and its actions */
+export interface AccessSummary {
+  level: string;
+  actions: string[];
+}
+
+export interface AccessChange {
+  userId: string;
+  /** null when the user had / has no access through an assignment */
+  before: AccessSummary | null;
+  after: AccessSummary | null;
+}
+
+export interface AuditRecord {
+  type: AuditRecordType;
+  timestamp: string;
+  correlationId: string;
+  /** Component that wrote the record, e.g. "authorize-api" */
+  source: string;
+  /** User the decision or change is about */
+  principal?: string;
+  /** Cedar action ("View") or permission operation ("AssignRole") */
+  action: string;
+  resource?: EntityRef;
+  /** Every ancestor of the resource in the evaluated entities (decisions only) */
+  parents?: EntityRef[];
+  /** Decision outcome; ERROR when the engine call failed */
+  decision?: "ALLOW" | "DENY" | "ERROR";
+  determiningPolicies?: string[];
+  /** Time spent in the engine call (or AVP call for changes) */
+  latencyMs: number;
+  engine?: AuthorizationEngineType;
+  error?: string;
+  /** Permission changes: the policy created or deleted */
+  change?: {
+    policyId?: string;
+    policyType?: string;
+    role?: string;
+  };
+  /** Permission changes: caller-reported user making the change */
+  actor?: string;
+  /** Hierarchy changes: the entity's parents before and after, and whose access changed */
+  hierarchyChange?: {
+    previousParents: EntityRef[];
+    parents: EntityRef[];
+    /** Snapshots rewritten: the entity and everything below it */
+    rebuilt: number;
+    accessChanges: AccessChange[];
+  };
+}
+
+export type AuditEntry = Omit<AuditRecord, "timestamp">;
+
+// =============================================================================
+// CORRELATION IDS
+// =============================================================================
+
+export const CORRELATION_ID_HEADER = "x-correlation-id";
+
+/**
+ * Correlation ID for a request: the caller's X-Correlation-Id, or a new one.
+ *
+ * @param headers - Request headers (lower-cased, as API Gateway HTTP APIs deliver them)
+ */
+export function getCorrelationId(headers: Record<string, string | undefined> = {}): string {
+  const given = headers[CORRELATION_ID_HEADER]?.trim();
+  // Bound what we copy into every record
+  return given && given.length <= 128 ? given : randomUUID();
+}
+
+// =============================================================================
+// SINKS
+// =============================================================================
+
+export interface IAuditSink {
+  write(record: AuditRecord): Promise<void>;
+}
+
+export class StdoutAuditSink implements IAuditSink {
+  async write(record: AuditRecord): Promise<void> {
+    console.log(JSON.stringify(record));
+  }
+}
+
+export class FileAuditSink implements IAuditSink {
+  constructor(private path: string) {}
+
+  async write(record: AuditRecord): Promise<void> {
+    await appendFile(this.path, JSON.stringify(record) + "\n", "utf-8");
+  }
+}
+
+export class InMemoryAuditSink implements IAuditSink {
+  readonly records: AuditRecord[] = [];
+
+  async write(record: AuditRecord): Promise<void> {
+    this.records.push(record);
+  }
+}
+
+export class NullAuditSink implements IAuditSink {
+  async write(): Promise<void> {}
+}
+
+/**
+ * Create the sink configured by AUDIT_SINK / AUDIT_LOG_FILE.
+ */
+export function createAuditSink(env: NodeJS.ProcessEnv = process.env): IAuditSink {
+  const sink = (env.AUDIT_SINK || "stdout").toLowerCase();
+  switch (sink) {
+    case "stdout":
+      return new StdoutAuditSink();
+    case "file":
+      return new FileAuditSink(env.AUDIT_LOG_FILE || "/tmp/audit.log");
+    case "memory":
+      return new InMemoryAuditSink();
+    case "none":
+      return new NullAuditSink();
+    default:
+      throw new Error(`Unknown AUDIT_SINK "${env.AUDIT_SINK}". Expected "stdout", "file", "memory" or "none".`);
+  }
+}
+
+// =============================================================================
+// LOGGER
+// =============================================================================
+
+export class AuditLogger {
+  constructor(
+    private source: string,
+    readonly sink: IAuditSink = createAuditSink()
+  ) {}
+
+  /**
+   * Write one record. A failing sink is reported but never fails the request.
+   */
+  async log(entry: Omit<AuditEntry, "source">): Promise<void> {
+    try {
+      await this.sink.write({ timestamp: new Date().toISOString(), source: this.source, ...entry });
+    } catch (error) {
+      console.error("Failed to write audit record:", error);
+    }
+  }
+}
+
+// =============================================================================
+// AUDITING ENGINE (decorator)
+// =============================================================================
+
+function resourceParents(entities: AuthorizationEntities, resource: EntityRef): EntityRef[] {
+  const seen = new Map<string, EntityRef>();
+  for (const path of resolveAncestorPaths(entities.entityList, resource)) {
+    for (const node of path.slice(1)) {
+      seen.set(`${node.entityType}::${node.entityId}`, node);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Wraps any engine so each decision it returns is audited under one
+ * correlation ID. Create one per request; batch calls record the latency of
+ * the whole call against each decision.
+ */
+export class AuditingAuthorizationEngine implements IAuthorizationEngine {
+  readonly type: AuthorizationEngineType;
+
+  constructor(
+    private engine: IAuthorizationEngine,
+    private audit: AuditLogger,
+    private correlationId: string
+  ) {
+    this.type = engine.type;
+  }
+
+  async isAuthorized(
+    query: AuthorizationQuery,
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult> {
+    const [result] = await this.evaluate([query], entities, () =>
+      this.engine.isAuthorized(query, entities).then((r) => [r])
+    );
+    return result;
+  }
+
+  async batchIsAuthorized(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult[]> {
+    return this.evaluate(queries, entities, () => this.engine.batchIsAuthorized(queries, entities));
+  }
+
+  private async evaluate(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities,
+    call: () => Promise<AuthorizationResult[]>
+  ): Promise<AuthorizationResult[]> {
+    const started = Date.now();
+    let results: AuthorizationResult[];
+    try {
+      results = await call();
+    } catch (error) {
+      await this.record(queries, entities, Date.now() - started, () => ({
+        decision: "ERROR",
+        error: error instanceof Error ? error.message : String(error),
+      }));
+      throw error;
+    }
+
+    await this.record(queries, entities, Date.now() - started, (i) => ({
+      decision: results[i].allowed ? "ALLOW" : "DENY",
+      determiningPolicies: results[i].determiningPolicies.map((p) => p.policyId),
+      error: results[i].errors.length > 0 ? results[i].errors.map((e) => e.errorDescription).join("; ") : undefined,
+    }));
+    return results;
+  }
+
+  private async record(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities,
+    latencyMs: number,
+    outcome: (i: number) => Pick<AuditRecord, "decision" | "determiningPolicies" | "error">
+  ): Promise<void> {
+    await Promise.all(
+      queries.map((query, i) =>
+        this.audit.log({
+          type: "decision",
+          correlationId: this.correlationId,
+          principal: query.principal.entityId,
+          action: query.action.actionId,
+          resource: query.resource,
+          parents: resourceParents(entities, query.resource),
+          latencyMs,
+          engine: this.type,
+          ...outcome(i),
+        })
+      )
+    );
+  }
+}
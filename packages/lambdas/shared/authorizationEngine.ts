@@ -0,0 +1,335 @@
+/**
+ * Authorization Engine - Evaluates Cedar authorization requests.
+ *
+ * Two implementations share one response shape:
+ *   - AvpAuthorizationEngine:  calls IsAuthorized / BatchIsAuthorized on AVP
+ *   - LocalCedarEngine:        evaluates in-process with the Cedar engine, using
+ *                              the policy store definition in /authorization
+ *
+ * The engine is selected with AUTHORIZATION_ENGINE:
+ *   "avp"      (default) - network call to the policy store
+ *   "embedded"           - local evaluation (lower latency, works fully offline)
+ *
+ * Note: determining policy IDs differ between engines. AVP returns generated
+ * policy IDs; the local engine returns file names ("creator-privilege") and
+ * assignment IDs ("AliceCoordinator").
+ */
+
+import {
+  VerifiedPermissionsClient,
+  IsAuthorizedCommand,
+  BatchIsAuthorizedCommand,
+  Decision,
+  AttributeValue,
+  EntityItem,
+} from "@aws-sdk/client-verifiedpermissions";
+import type * as CedarWasm from "@cedar-policy/cedar-wasm/nodejs";
+import { AuthRequest } from "./types";
+import { EntityRef, LocalPolicyStore, loadLocalPolicyStore } from "./localPolicies";
+import { toContextMap } from "./requestContext";
+import { metrics } from "./metrics";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AuthorizationQuery {
+  principal: EntityRef;
+  action: { actionType: string; actionId: string };
+  resource: EntityRef;
+  /** Cedar context in AVP context map format */
+  context?: Record<string, AttributeValue>;
+}
+
+export interface AuthorizationEntities {
+  entityList: EntityItem[];
+}
+
+export interface AuthorizationResult {
+  decision: Decision;
+  allowed: boolean;
+  determiningPolicies: Array<{ policyId: string }>;
+  errors: Array<{ errorDescription: string }>;
+}
+
+export type AuthorizationEngineType = "avp" | "embedded";
+
+// =============================================================================
+// AUTHORIZATION ENGINE INTERFACE
+// =============================================================================
+
+export interface IAuthorizationEngine {
+  readonly type: AuthorizationEngineType;
+
+  /**
+   * Evaluate a single request against the given entities.
+   */
+  isAuthorized(query: AuthorizationQuery, entities: AuthorizationEntities): Promise<AuthorizationResult>;
+
+  /**
+   * Evaluate several requests that share one entity set.
+   * Results are returned in the same order as the queries.
+   */
+  batchIsAuthorized(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult[]>;
+}
+
+/**
+ * Convert an AuthRequest into the principal/action/resource triple.
+ */
+export function toAuthorizationQuery(req: AuthRequest): AuthorizationQuery {
+  return {
+    principal: {
+      entityType: "Gazebo::User",
+      entityId: req.userId,
+    },
+    action: {
+      actionType: "Gazebo::Action",
+      actionId: req.action,
+    },
+    resource: {
+      entityType: `Gazebo::${req.resourceType}`,
+      entityId: req.resourceId,
+    },
+    context: req.context ? toContextMap(req.context) : undefined,
+  };
+}
+
+// =============================================================================
+// AVP ENGINE
+// =============================================================================
+
+export class AvpAuthorizationEngine implements IAuthorizationEngine {
+  readonly type = "avp";
+
+  constructor(
+    private policyStoreId: string,
+    private client: VerifiedPermissionsClient = new VerifiedPermissionsClient({})
+  ) {}
+
+  async isAuthorized(
+    query: AuthorizationQuery,
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult> {
+    const result = await metrics.time(
+      "AvpLatency",
+      () =>
+        this.client.send(
+          new IsAuthorizedCommand({
+            policyStoreId: this.policyStoreId,
+            ...toAvpRequest(query),
+            entities,
+          })
+        ),
+      { Operation: "IsAuthorized" }
+    );
+
+    return toAuthorizationResult(result);
+  }
+
+  async batchIsAuthorized(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult[]> {
+    const result = await metrics.time(
+      "AvpLatency",
+      () =>
+        this.client.send(
+          new BatchIsAuthorizedCommand({
+            policyStoreId: this.policyStoreId,
+            requests: queries.map(toAvpRequest),
+            entities,
+          })
+        ),
+      { Operation: "BatchIsAuthorized" }
+    );
+
+    return (result.results || []).map(toAuthorizationResult);
+  }
+}
+
+function toAvpRequest({ context, ...request }: AuthorizationQuery) {
+  return { ...request, context: context ? { contextMap: context } : undefined };
+}
+
+function toAuthorizationResult(result: {
+  decision?: Decision;
+  determiningPolicies?: Array<{ policyId?: string }>;
+  errors?: Array<{ errorDescription?: string }>;
+}): AuthorizationResult {
+  return {
+    decision: result.decision ?? Decision.DENY,
+    allowed: result.decision === Decision.ALLOW,
+    determiningPolicies: (result.determiningPolicies || []).map((p) => ({ policyId: p.policyId! })),
+    errors: (result.errors || []).map((e) => ({ errorDescription: e.errorDescription || "" })),
+  };
+}
+
+// =============================================================================
+// LOCAL CEDAR ENGINE (embedded mode)
+// =============================================================================
+
+type CedarModule = typeof CedarWasm;
+
+export class LocalCedarEngine implements IAuthorizationEngine {
+  readonly type = "embedded";
+
+  private cedar: CedarModule | null = null;
+  private store: LocalPolicyStore | null = null;
+  private policySet: CedarWasm.PolicySet | null = null;
+
+  /**
+   * @param loadStore - Policy store loader (defaults to reading /authorization from disk)
+   */
+  constructor(private loadStore: () => LocalPolicyStore = () => loadLocalPolicyStore()) {}
+
+  async isAuthorized(
+    query: AuthorizationQuery,
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult> {
+    const [result] = await this.batchIsAuthorized([query], entities);
+    return result;
+  }
+
+  async batchIsAuthorized(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult[]> {
+    const cedar = await this.getCedar();
+    const { store, policySet } = this.getPolicySet();
+    const cedarEntities = entities.entityList.map(toCedarEntity);
+
+    return queries.map((query) => {
+      const answer = cedar.isAuthorized({
+        principal: toCedarUid(query.principal),
+        action: { type: query.action.actionType, id: query.action.actionId },
+        resource: toCedarUid(query.resource),
+        context: toCedarRecord(query.context || {}),
+        schema: store.schema as CedarWasm.Schema,
+        validateRequest: true,
+        policies: policySet,
+        entities: cedarEntities,
+      });
+
+      if (answer.type === "failure") {
+        throw new Error(
+          `Cedar evaluation failed: ${answer.errors.map((e) => e.message).join("; ")}`
+        );
+      }
+
+      const { decision, diagnostics } = answer.response;
+      return {
+        decision: decision === "allow" ? Decision.ALLOW : Decision.DENY,
+        allowed: decision === "allow",
+        determiningPolicies: diagnostics.reason.map((policyId) => ({ policyId })),
+        errors: diagnostics.errors.map((e) => ({
+          errorDescription: `${e.policyId}: ${e.error.message}`,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Load the wasm module on first use so AVP mode never pays for it.
+   */
+  private async getCedar(): Promise<CedarModule> {
+    if (!this.cedar) {
+      this.cedar = await import("@cedar-policy/cedar-wasm/nodejs");
+    }
+    return this.cedar;
+  }
+
+  /**
+   * Build the Cedar policy set once per container:
+   *   static policies  → id = file name
+   *   templates        → id = permission level
+   *   template links   → id = assignment id, slots bound from assignments.json
+   */
+  private getPolicySet(): { store: LocalPolicyStore; policySet: CedarWasm.PolicySet } {
+    if (!this.store || !this.policySet) {
+      const store = this.loadStore();
+      this.store = store;
+      this.policySet = {
+        staticPolicies: store.staticPolicies,
+        templates: store.templates,
+        templateLinks: store.assignments.map((assignment) => ({
+          templateId: assignment.template,
+          newId: assignment.id,
+          values: {
+            "?principal": toCedarUid(assignment.principal),
+            "?resource": toCedarUid(assignment.resource),
+          },
+        })),
+      };
+    }
+    return { store: this.store, policySet: this.policySet };
+  }
+}
+
+// =============================================================================
+// AVP → CEDAR JSON CONVERSION
+// =============================================================================
+
+function toCedarUid(ref: { entityType?: string; entityId?: string }): CedarWasm.TypeAndId {
+  return { type: ref.entityType!, id: ref.entityId! };
+}
+
+/**
+ * Convert an AVP EntityItem into Cedar's JSON entity format.
+ */
+function toCedarEntity(entity: EntityItem): CedarWasm.EntityJson {
+  return {
+    uid: toCedarUid(entity.identifier!),
+    attrs: toCedarRecord(entity.attributes || {}),
+    parents: (entity.parents || []).map(toCedarUid),
+  };
+}
+
+function toCedarRecord(values: Record<string, AttributeValue>): Record<string, CedarWasm.CedarValueJson> {
+  const record: Record<string, CedarWasm.CedarValueJson> = {};
+  for (const [key, value] of Object.entries(values)) {
+    record[key] = toCedarValue(value);
+  }
+  return record;
+}
+
+/**
+ * Convert an AVP AttributeValue ({ string: "x" }, { long: 1 }, ...) into a
+ * Cedar JSON value.
+ */
+function toCedarValue(value: AttributeValue): CedarWasm.CedarValueJson {
+  if (value.string !== undefined) return value.string;
+  if (value.long !== undefined) return value.long;
+  if (value.boolean !== undefined) return value.boolean;
+  if (value.entityIdentifier !== undefined) {
+    return { __entity: toCedarUid(value.entityIdentifier) };
+  }
+  if (value.set !== undefined) return value.set.map(toCedarValue);
+  if (value.record !== undefined) return toCedarRecord(value.record);
+  if (value.ipaddr !== undefined) return { __extn: { fn: "ip", arg: value.ipaddr } };
+  if (value.decimal !== undefined) return { __extn: { fn: "decimal", arg: value.decimal } };
+
+  throw new Error(`Unsupported attribute value: ${JSON.stringify(value)}`);
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create the engine selected by AUTHORIZATION_ENGINE ("avp" or "embedded").
+ */
+export function createAuthorizationEngine(
+  type: string = process.env.AUTHORIZATION_ENGINE || "avp"
+): IAuthorizationEngine {
+  switch (type) {
+    case "avp":
+      return new AvpAuthorizationEngine(process.env.POLICY_STORE_ID!);
+    case "embedded":
+      return new LocalCedarEngine();
+    default:
+      throw new Error(`Unknown AUTHORIZATION_ENGINE: ${type}. Expected "avp" or "embedded"`);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Batch Chunking - Splits large authorization batches into valid AVP calls.
+ *
+ * BatchIsAuthorized accepts at most 30 requests per call, and every request
+ * in a call must share the same principal or the same resource. A batch from
+ * the UI can be any size and mix both, so we:
+ *   1. Group requests by shared principal, then leftovers by shared resource
+ *   2. Split each group into chunks of at most MAX_CHUNK_SIZE
+ *   3. Send each chunk with only the entities its requests need
+ *   4. Run chunks concurrently (up to a limit) and merge results in request order
+ */
+
+import { EntityItem } from "@aws-sdk/client-verifiedpermissions";
+import {
+  AuthorizationQuery,
+  AuthorizationResult,
+  IAuthorizationEngine,
+} from "./authorizationEngine";
+
+// =============================================================================
+// LIMITS
+// =============================================================================
+
+/** AVP BatchIsAuthorized limit */
+export const MAX_CHUNK_SIZE = 30;
+
+/** Largest batch accepted by /authorize/batch (larger → 413) */
+export const MAX_BATCH_REQUESTS = Number(process.env.MAX_BATCH_REQUESTS || 1000);
+
+/** Chunks evaluated in parallel */
+export const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY || 4);
+
+/** Items resolved in parallel (registry and hierarchy lookups) */
+export const RESOLVE_CONCURRENCY = Number(process.env.RESOLVE_CONCURRENCY || 20);
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BatchItem {
+  query: AuthorizationQuery;
+  entities: { entityList: EntityItem[] };
+}
+
+// =============================================================================
+// CHUNK PLANNING
+// =============================================================================
+
+function refKey(ref: { entityType: string; entityId: string }): string {
+  return `${ref.entityType}::${ref.entityId}`;
+}
+
+function groupBy(indices: number[], key: (i: number) => string): number[][] {
+  const groups = new Map<string, number[]>();
+  for (const i of indices) {
+    const k = key(i);
+    const group = groups.get(k);
+    if (group) {
+      group.push(i);
+    } else {
+      groups.set(k, [i]);
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Plan chunks of request indices. Every chunk shares a principal or a resource
+ * and holds at most maxChunkSize requests.
+ *
+ * Requests that share nothing with another request become chunks of one.
+ */
+export function planChunks(
+  queries: AuthorizationQuery[],
+  maxChunkSize: number = MAX_CHUNK_SIZE
+): number[][] {
+  const all = queries.map((_, i) => i);
+
+  // Prefer grouping by principal ("what can this user do on these resources")
+  const byPrincipal = groupBy(all, (i) => refKey(queries[i].principal));
+  const groups = byPrincipal.filter((g) => g.length > 1);
+  const leftovers = byPrincipal.filter((g) => g.length === 1).flat();
+
+  // Then by resource ("who can do what on this resource")
+  groups.push(...groupBy(leftovers, (i) => refKey(queries[i].resource)));
+
+  const chunks: number[][] = [];
+  for (const group of groups) {
+    for (let start = 0; start < group.length; start += maxChunkSize) {
+      chunks.push(group.slice(start, start + maxChunkSize));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Merge the entity lists of the given items (deduplicated by identifier).
+ */
+export function mergeEntities(items: BatchItem[]): { entityList: EntityItem[] } {
+  const entityMap = new Map<string, EntityItem>();
+  for (const item of items) {
+    for (const entity of item.entities.entityList) {
+      const key = `${entity.identifier!.entityType}::${entity.identifier!.entityId}`;
+      if (!entityMap.has(key)) {
+        entityMap.set(key, entity);
+      }
+    }
+  }
+  return { entityList: Array.from(entityMap.values()) };
+}
+
+/**
+ * Run async tasks with at most `limit` in flight. Results keep task order.
+ */
+export async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+}
+
+// =============================================================================
+// CHUNKED EVALUATION
+// =============================================================================
+
+/**
+ * Evaluate any number of requests, chunked to fit BatchIsAuthorized.
+ * Outcomes are returned in the same order as the items. A chunk that fails
+ * rejects only its own items, so one bad chunk doesn't fail the whole batch.
+ */
+export async function authorizeInChunks(
+  engine: IAuthorizationEngine,
+  items: BatchItem[],
+  concurrency: number = BATCH_CONCURRENCY
+): Promise<PromiseSettledResult<AuthorizationResult>[]> {
+  const chunks = planChunks(items.map((item) => item.query));
+  const outcomes: PromiseSettledResult<AuthorizationResult>[] = new Array(items.length);
+
+  await runWithConcurrency(
+    chunks.map((chunk) => async () => {
+      const chunkItems = chunk.map((i) => items[i]);
+      try {
+        const chunkResults = await engine.batchIsAuthorized(
+          chunkItems.map((item) => item.query),
+          mergeEntities(chunkItems)
+        );
+
+        if (chunkResults.length !== chunk.length) {
+          throw new Error(
+            `Batch authorization returned ${chunkResults.length} results for ${chunk.length} requests`
+          );
+        }
+        chunk.forEach((index, j) => {
+          outcomes[index] = { status: "fulfilled", value: chunkResults[j] };
+        });
+      } catch (error) {
+        chunk.forEach((index) => {
+          outcomes[index] = { status: "rejected", reason: error };
+        });
+      }
+    }),
+    concurrency
+  );
+
+  return outcomes;
+}
@@ -0,0 +1,269 @@
+/**
+ * Decision Cache - Reuses recent decisions for identical requests.
+ *
+ * A page load can check the same user and resource many times. Each check
+ * costs a buildEntities pass plus an AVP round-trip, so decisions are cached
+ * in the Lambda container keyed on:
+ *   principal | action | resource | hash(entity set) | context
+ *
+ * Hashing the entity set means a hierarchy change (site moved, different
+ * parents, createdBy) never hits a stale entry. Policy changes are caught by
+ * the policy version counter: when permissions-api bumps it, the cache is
+ * cleared on the next version check.
+ *
+ * Configuration:
+ *   DECISION_CACHE_TTL_MS            - entry lifetime (default 30000, 0 disables)
+ *   DECISION_CACHE_MAX_ENTRIES       - size bound, oldest evicted first (default 5000)
+ *   POLICY_VERSION_CHECK_INTERVAL_MS - how often the version is re-read (default 5000)
+ */
+
+import { createHash } from "crypto";
+import {
+  AuthorizationEntities,
+  AuthorizationQuery,
+  AuthorizationEngineType,
+  AuthorizationResult,
+  IAuthorizationEngine,
+} from "./authorizationEngine";
+import { IPolicyVersionStore, policyVersionStore } from "./policyVersion";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DecisionCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  versionCheckIntervalMs: number;
+}
+
+export interface DecisionCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  size: number;
+  evictions: number;
+  invalidations: number;
+  policyVersion: number | null;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  result: AuthorizationResult;
+  expiresAt: number;
+}
+
+export const DEFAULT_DECISION_CACHE_OPTIONS: DecisionCacheOptions = {
+  ttlMs: Number(process.env.DECISION_CACHE_TTL_MS ?? 30000),
+  maxEntries: Number(process.env.DECISION_CACHE_MAX_ENTRIES || 5000),
+  versionCheckIntervalMs: Number(process.env.POLICY_VERSION_CHECK_INTERVAL_MS ?? 5000),
+};
+
+// =============================================================================
+// CACHE KEYS
+// =============================================================================
+
+/**
+ * Order-independent hash of an entity list.
+ */
+export function hashEntities(entities: AuthorizationEntities): string {
+  const canonical = entities.entityList
+    .map((entity) => JSON.stringify(entity, Object.keys(flattenKeys(entity)).sort()))
+    .sort();
+  return createHash("sha256").update(canonical.join("\n")).digest("hex");
+}
+
+// Collect every key in a nested object so JSON.stringify's allow-list covers all levels
+function flattenKeys(value: unknown, keys: Record<string, true> = {}): Record<string, true> {
+  if (Array.isArray(value)) {
+    value.forEach((v) => flattenKeys(v, keys));
+  } else if (value && typeof value === "object") {
+    for (const [key, inner] of Object.entries(value)) {
+      keys[key] = true;
+      flattenKeys(inner, keys);
+    }
+  }
+  return keys;
+}
+
+function cacheKey(query: AuthorizationQuery, entityHash: string): string {
+  const context = query.context || {};
+  return [
+    `${query.principal.entityType}::${query.principal.entityId}`,
+    `${query.action.actionType}::${query.action.actionId}`,
+    `${query.resource.entityType}::${query.resource.entityId}`,
+    entityHash,
+    JSON.stringify(context, Object.keys(flattenKeys(context)).sort()),
+  ].join("|");
+}
+
+// =============================================================================
+// DECISION CACHE
+// =============================================================================
+
+export class DecisionCache {
+  // Map iteration order = insertion order; re-inserting on hit gives LRU eviction
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+  private policyVersion: number | null = null;
+  private lastVersionCheck = 0;
+
+  constructor(
+    private versionStore: IPolicyVersionStore = policyVersionStore,
+    private options: DecisionCacheOptions = DEFAULT_DECISION_CACHE_OPTIONS
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0 && this.options.maxEntries > 0;
+  }
+
+  /**
+   * Clear the cache if the policy version moved since the last check.
+   * Version reads are rate-limited to one per versionCheckIntervalMs. A failed
+   * read also clears the cache - a revocation may have been missed - but never
+   * fails the authorization that triggered it.
+   */
+  async checkPolicyVersion(now: number = Date.now()): Promise<void> {
+    if (now - this.lastVersionCheck < this.options.versionCheckIntervalMs) return;
+    this.lastVersionCheck = now;
+
+    let version: number;
+    try {
+      version = await this.versionStore.getVersion();
+    } catch (error) {
+      console.warn("Failed to read the policy version; clearing the decision cache:", error);
+      if (this.entries.size > 0) this.invalidate();
+      return;
+    }
+    if (this.policyVersion !== null && version !== this.policyVersion) {
+      this.invalidate();
+    }
+    this.policyVersion = version;
+  }
+
+  get(query: AuthorizationQuery, entityHash: string, now: number = Date.now()): AuthorizationResult | undefined {
+    const key = cacheKey(query, entityHash);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= now) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.result;
+  }
+
+  set(query: AuthorizationQuery, entityHash: string, result: AuthorizationResult, now: number = Date.now()): void {
+    // Decisions with evaluation errors may be transient - don't pin them
+    if (result.errors.length > 0) return;
+
+    const key = cacheKey(query, entityHash);
+    this.entries.delete(key);
+    this.entries.set(key, { result, expiresAt: now + this.options.ttlMs });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Drop every cached decision (policy set changed).
+   */
+  invalidate(): void {
+    this.entries.clear();
+    this.invalidations++;
+  }
+
+  getStats(): DecisionCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups ? this.hits / lookups : 0,
+      size: this.entries.size,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      policyVersion: this.policyVersion,
+      ttlMs: this.options.ttlMs,
+      maxEntries: this.options.maxEntries,
+    };
+  }
+}
+
+// =============================================================================
+// CACHING ENGINE (decorator)
+// =============================================================================
+
+/**
+ * Wraps any engine with the decision cache. Only cache misses reach the
+ * underlying engine; results keep query order.
+ */
+export class CachingAuthorizationEngine implements IAuthorizationEngine {
+  readonly type: AuthorizationEngineType;
+
+  constructor(
+    private engine: IAuthorizationEngine,
+    readonly cache: DecisionCache = new DecisionCache()
+  ) {
+    this.type = engine.type;
+  }
+
+  async isAuthorized(
+    query: AuthorizationQuery,
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult> {
+    const [result] = await this.batchIsAuthorized([query], entities);
+    return result;
+  }
+
+  async batchIsAuthorized(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult[]> {
+    if (!this.cache.enabled) {
+      return queries.length === 1
+        ? [await this.engine.isAuthorized(queries[0], entities)]
+        : this.engine.batchIsAuthorized(queries, entities);
+    }
+
+    await this.cache.checkPolicyVersion();
+
+    const entityHash = hashEntities(entities);
+    const results: AuthorizationResult[] = new Array(queries.length);
+    const missed: number[] = [];
+
+    queries.forEach((query, i) => {
+      const cached = this.cache.get(query, entityHash);
+      if (cached) {
+        results[i] = cached;
+      } else {
+        missed.push(i);
+      }
+    });
+
+    if (missed.length > 0) {
+      const missedQueries = missed.map((i) => queries[i]);
+      const fresh =
+        missedQueries.length === 1
+          ? [await this.engine.isAuthorized(missedQueries[0], entities)]
+          : await this.engine.batchIsAuthorized(missedQueries, entities);
+
+      missed.forEach((index, j) => {
+        results[index] = fresh[j];
+        this.cache.set(queries[index], entityHash, fresh[j]);
+      });
+    }
+
+    return results;
+  }
+}
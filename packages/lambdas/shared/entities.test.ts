@@ -0,0 +1,110 @@
+/**
+ * buildEntities: where the resource entity's parents come from.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { buildEntities } from "./entities";
+import { HierarchyChain, HierarchyLookupError, MockHierarchyService } from "./hierarchyService";
+import { InMemoryResourceRegistry } from "./resourceRegistry";
+import { AuthRequest } from "./types";
+
+/** Every lookup fails, as when site-service / company-service are down */
+class FailingHierarchyService extends MockHierarchyService {
+  async getSiteHierarchy(): Promise<HierarchyChain> {
+    throw new Error("site-service unavailable: HTTP 503");
+  }
+
+  async getCompanyHierarchy(): Promise<HierarchyChain> {
+    throw new Error("company-service unavailable: HTTP 503");
+  }
+}
+
+/** Answers with a chain that doesn't contain the Site that was asked for */
+class UnrelatedChainHierarchyService extends MockHierarchyService {
+  async getSiteHierarchy(): Promise<HierarchyChain> {
+    return super.getSiteHierarchy("portland-manufacturing");
+  }
+}
+
+const siteRequest: AuthRequest = {
+  userId: "dan@cascade.com",
+  action: "View",
+  resourceType: "Site",
+  resourceId: "52",
+  resourceParents: { region: "10", organization: "1" },
+};
+
+const projectRequest: AuthRequest = {
+  userId: "dan@cascade.com",
+  action: "View",
+  resourceType: "Project",
+  resourceId: "proj-1",
+  resourceParentSite: "portland-manufacturing",
+};
+
+async function resourceParents(
+  req: AuthRequest,
+  hierarchy: MockHierarchyService,
+  onHierarchyError: "warn" | "throw" = "warn"
+) {
+  const { entityList } = await buildEntities(req, hierarchy, {
+    onHierarchyError,
+    resourceRegistry: new InMemoryResourceRegistry(),
+  });
+  const resource = entityList.find(
+    (e) => e.identifier.entityType === `Gazebo::${req.resourceType}` && e.identifier.entityId === req.resourceId
+  );
+  return resource.parents.map((p: { entityType: string; entityId: string }) => `${p.entityType}:${p.entityId}`);
+}
+
+describe("buildEntities", () => {
+  describe("hierarchy entities", () => {
+    it("takes a Site's parents from the hierarchy", async () => {
+      const parents = await resourceParents(
+        { ...siteRequest, resourceId: "portland-manufacturing", resourceParents: undefined },
+        new MockHierarchyService()
+      );
+
+      assert.ok(parents.includes("Gazebo::Region:10"));
+    });
+
+    it("sends a Site without parents when its lookup fails, ignoring the body's", async () => {
+      assert.deepStrictEqual(await resourceParents(siteRequest, new FailingHierarchyService()), []);
+    });
+
+    it("sends a Region without parents when its lookup fails", async () => {
+      const regionRequest: AuthRequest = {
+        ...siteRequest,
+        resourceType: "Region",
+        resourceId: "52",
+        resourceParents: { organization: "1" },
+      };
+
+      assert.deepStrictEqual(await resourceParents(regionRequest, new FailingHierarchyService()), []);
+    });
+
+    it("sends a Site without parents when the chain doesn't contain it", async () => {
+      assert.deepStrictEqual(await resourceParents(siteRequest, new UnrelatedChainHierarchyService()), []);
+    });
+
+    it("raises HierarchyLookupError in throw mode", async () => {
+      const request = { ...siteRequest, resourceParents: undefined };
+
+      await assert.rejects(resourceParents(request, new FailingHierarchyService(), "throw"), (error: Error) => {
+        assert.ok(error instanceof HierarchyLookupError);
+        assert.strictEqual(error.entityType, "Site");
+        assert.strictEqual(error.entityId, "52");
+        return true;
+      });
+    });
+  });
+
+  describe("other resources", () => {
+    it("keeps a registered Project's site when the site lookup fails", async () => {
+      const parents = await resourceParents(projectRequest, new FailingHierarchyService());
+
+      assert.deepStrictEqual(parents, ["Gazebo::Site:portland-manufacturing"]);
+    });
+  });
+});
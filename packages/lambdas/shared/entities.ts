@@ -1,8 +1,57 @@
-import { AuthRequest, ResourceParents } from "./types";
-import { hierarchyService, IHierarchyService, HierarchyNode } from "./hierarchyService";
+import { AuthRequest, ResourceParents, ValidationIssue } from "./types";
+import {
+  hierarchyService,
+  IHierarchyService,
+  HierarchyChain,
+  HierarchyLookupError,
+  HierarchyNode,
+  COMPANY_ENTITY_TYPES,
+  CompanyEntityType,
+  PROGRAM_ENTITY_TYPES,
+  ProgramEntityType,
+} from "./hierarchyService";
+import { metrics } from "./metrics";
+import { toEntityAttributes } from "./entityAttributes";
+import {
+  IResourceRegistry,
+  resolveRegisteredResource,
+  ResourceConflictMode,
+  resourceConflictMode,
+  resourceRegistry,
+  ResourceRegistryError,
+} from "./resourceRegistry";
+
+export interface BuildEntitiesOptions {
+  /**
+   * What to do when the hierarchy lookup fails:
+   *   "warn"  (default) - log and continue without the ancestor chain
+   *   "throw"           - raise HierarchyLookupError so the caller can report it
+   */
+  onHierarchyError?: "warn" | "throw";
+
+  /**
+   * Attributes for the User entity, e.g. email / emailDomain from a verified token.
+   * Checked against the User shape in schema.json like every other entity's.
+   */
+  principalAttributes?: Record<string, string>;
+
+  /**
+   * Registry the parents and creator of Projects, Models, Claims, ... are
+   * resolved from (defaults to the configured registry).
+   */
+  resourceRegistry?: IResourceRegistry;
+
+  /**
+   * What to do when the request's parents or creator disagree with the registry,
+   * or its parents disagree with the hierarchy (defaults to RESOURCE_CONFLICT_MODE):
+   *   "reject" - raise ResourceRegistryError so the caller can report it
+   *   "ignore" - use the registered / hierarchy values
+   */
+  onResourceConflict?: ResourceConflictMode;
+}
 
 // Maps parent field names to their Cedar entity types
-const PARENT_TYPE_MAP: Record<keyof ResourceParents, string> = {
+export const PARENT_TYPE_MAP: Record<keyof ResourceParents, string> = {
   site: "Site",
   region: "Region",
   organization: "Organization",
@@ -12,23 +61,86 @@ const PARENT_TYPE_MAP: Record<keyof ResourceParents, string> = {
   client: "Client",
 };
 
+function isProgramEntityType(type: string | undefined): type is ProgramEntityType {
+  return PROGRAM_ENTITY_TYPES.includes(type as ProgramEntityType);
+}
+
+function isCompanyEntityType(type: string | undefined): type is CompanyEntityType {
+  return COMPANY_ENTITY_TYPES.includes(type as CompanyEntityType);
+}
+
+// Site, Region, Cohort, ...: the entities the hierarchy services own
+function isHierarchyEntityType(type: string): boolean {
+  return type === "Site" || isCompanyEntityType(type) || isProgramEntityType(type);
+}
+
+/**
+ * Client-supplied parents that aren't parents of the resource's hierarchy node.
+ * Omitted fields never conflict.
+ */
+function findHierarchyConflicts(req: AuthRequest, node: HierarchyNode): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const isParent = (type: string, id: string) => node.parents.some((p) => p.type === type && p.id === id);
+  const actual = (type: string) =>
+    node.parents.filter((p) => p.type === type).map((p) => p.id).join(", ") || "none";
+
+  const site = req.resourceType === "Site" ? undefined : req.resourceParentSite;
+  if (site !== undefined && !isParent("Site", site)) {
+    issues.push({
+      field: "resourceParentSite",
+      message: `Does not match the hierarchy's site (${actual("Site")})`,
+    });
+  }
+
+  for (const [key, value] of Object.entries(req.resourceParents || {})) {
+    const type = PARENT_TYPE_MAP[key as keyof ResourceParents];
+    if (value !== undefined && type && !isParent(type, value)) {
+      issues.push({
+        field: `resourceParents.${key}`,
+        message: `Does not match the hierarchy's ${key} (${actual(type)})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
 /**
  * Build the entity context for an AVP authorization request.
  *
  * This function:
+ * 0. Replaces client-supplied parents / createdBy of registered resources
+ *    with the values in the resource registry
  * 1. Creates the User entity with role memberships
- * 2. Creates the Resource entity with immediate parents
- * 3. Fetches and includes the full hierarchy chain (Site → Region → Organization)
+ * 2. Creates the Resource entity with immediate parents (the hierarchy's own
+ *    parents for hierarchy entities, whatever the request claims - none when
+ *    their lookup failed)
+ * 3. Fetches and includes the full hierarchy chains (Site → Region → Organization,
+ *    Region → Organization, Participation/Cycle → Cohort → Program → Client)
  * 4. Adds Role entities for policy evaluation
  *
- * @param req - The authorization request
+ * Every entity's attributes (name, startDate, createdBy, ...) come from the
+ * hierarchy, the resource registry or the options, and are converted to typed
+ * AVP values against schema.json.
+ *
+ * @param request - The authorization request
  * @param hierarchy - Optional hierarchy service (defaults to mock service)
+ * @param options - Optional behavior (hierarchy error handling, principal attributes, registry)
  * @returns Entity list for AVP IsAuthorized call
+ * @throws ResourceRegistryError when the request conflicts with the registry or the hierarchy
+ * @throws EntityAttributeError when attributes don't match the schema
  */
 export async function buildEntities(
-  req: AuthRequest,
-  hierarchy: IHierarchyService = hierarchyService
+  request: AuthRequest,
+  hierarchy: IHierarchyService = hierarchyService,
+  options: BuildEntitiesOptions = {}
 ) {
+  const started = Date.now();
+  const { request: req, attributes: registeredAttributes } = await resolveRegisteredResource(
+    request,
+    options.resourceRegistry ?? resourceRegistry,
+    options.onResourceConflict ?? resourceConflictMode
+  );
   const entities: any[] = [];
   const addedEntities = new Set<string>();
 
@@ -49,7 +161,7 @@ export async function buildEntities(
   // has access to what resources.
   const userEntity: any = {
     identifier: { entityType: "Gazebo::User", entityId: req.userId },
-    attributes: {},
+    attributes: toEntityAttributes("User", req.userId, options.principalAttributes),
     parents: [],
   };
 
@@ -60,25 +172,65 @@ export async function buildEntities(
   // ═══════════════════════════════════════════════════════════════════════════
   addEntity({
     identifier: { entityType: "Gazebo::System", entityId: "gazebo" },
-    attributes: { name: { string: "Gazebo" } },
+    attributes: toEntityAttributes("System", "gazebo", { name: "Gazebo" }),
     parents: [],
   });
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // 2. Fetch hierarchy chain FIRST (so we can set parents on resource entity)
+  // 2. Fetch hierarchy chains FIRST (so we can set parents on resource entity)
+  //    - Site chain for Sites and resources on a site (resourceParentSite)
+  //    - Company chain for Regions / Organizations
+  //    - Program chain for program-layer resources (Participation, Cohort, ...)
+  //    Region, Organization and program-layer parents named in resourceParents
+  //    are looked up the same way
   // ═══════════════════════════════════════════════════════════════════════════
-  const siteId = req.resourceType === "Site" ? req.resourceId : req.resourceParentSite;
-  let hierarchyChain: { nodes: HierarchyNode[] } | null = null;
-
-  if (siteId) {
+  const lookupChain = async (
+    type: string,
+    id: string,
+    lookup: () => Promise<HierarchyChain>
+  ): Promise<HierarchyChain | null> => {
     try {
-      hierarchyChain = await hierarchy.getSiteHierarchy(siteId);
+      return await metrics.time("HierarchyLookupDuration", lookup);
     } catch (error) {
+      metrics.put("HierarchyLookupFailures", 1);
+      if (options.onHierarchyError === "throw") {
+        throw new HierarchyLookupError(type, id, error);
+      }
       // If hierarchy lookup fails, log but don't fail the request
-      console.warn(`Failed to fetch hierarchy for site ${siteId}:`, error);
+      console.warn(`Failed to fetch hierarchy for ${type} ${id}:`, error);
+      return null;
+    }
+  };
+
+  const siteId = req.resourceType === "Site" ? req.resourceId : req.resourceParentSite;
+  const chainRefs: Array<{ type: CompanyEntityType | ProgramEntityType; id: string }> = [];
+  const addChainRef = (type: string, id: string) => {
+    if (isCompanyEntityType(type) || isProgramEntityType(type)) {
+      chainRefs.push({ type, id });
     }
+  };
+
+  addChainRef(req.resourceType, req.resourceId);
+  for (const [key, value] of Object.entries(req.resourceParents || {})) {
+    if (value) addChainRef(PARENT_TYPE_MAP[key as keyof ResourceParents], value);
   }
 
+  const lookups: Array<Promise<HierarchyChain | null>> = chainRefs.map(({ type, id }) =>
+    lookupChain(type, id, () =>
+      isCompanyEntityType(type)
+        ? hierarchy.getCompanyHierarchy(type, id)
+        : hierarchy.getProgramHierarchy(type, id)
+    )
+  );
+  if (siteId) {
+    lookups.unshift(lookupChain("Site", siteId, () => hierarchy.getSiteHierarchy(siteId)));
+  }
+
+  const hierarchyChains = (await Promise.all(lookups)).filter(
+    (chain): chain is HierarchyChain => chain !== null
+  );
+  const hierarchyNodes = hierarchyChains.flatMap((chain) => chain.nodes);
+
   // ═══════════════════════════════════════════════════════════════════════════
   // 3. Add resource entity with proper parents from hierarchy
   // ═══════════════════════════════════════════════════════════════════════════
@@ -91,46 +243,63 @@ export async function buildEntities(
     parents: [],
   };
 
-  // Add createdBy if provided
-  if (req.resourceCreatedBy) {
-    resourceEntity.attributes.createdBy = {
-      entityIdentifier: {
-        entityType: "Gazebo::User",
-        entityId: req.resourceCreatedBy,
-      },
-    };
-  }
-
-  // If the resource IS a Site and we have hierarchy, use the hierarchy's parents
-  if (req.resourceType === "Site" && hierarchyChain) {
-    const siteNode = hierarchyChain.nodes.find(n => n.type === "Site" && n.id === req.resourceId);
-    if (siteNode) {
-      resourceEntity.parents = siteNode.parents.map((p) => ({
-        entityType: `Gazebo::${p.type}`,
-        entityId: p.id,
-      }));
+  // Helper to add a parent to the resource only once
+  const addParent = (entityType: string, entityId: string) => {
+    const exists = resourceEntity.parents.some(
+      (p: { entityType: string; entityId: string }) =>
+        p.entityType === entityType && p.entityId === entityId
+    );
+    if (!exists) {
+      resourceEntity.parents.push({ entityType, entityId });
     }
-  }
+  };
 
-  // Add parent site if provided (for Project, Model, etc.)
-  if (req.resourceParentSite && req.resourceType !== "Site") {
-    resourceEntity.parents.push({
-      entityType: "Gazebo::Site",
-      entityId: req.resourceParentSite,
-    });
+  // If the resource itself is in a hierarchy chain (Site, Cohort, ...), use the hierarchy's parents
+  const resourceNode = hierarchyNodes.find(
+    (n) => n.type === req.resourceType && n.id === req.resourceId
+  );
+  for (const p of resourceNode?.parents || []) {
+    addParent(`Gazebo::${p.type}`, p.id);
   }
 
-  // Add parents from resourceParents (flexible parent specification)
-  if (req.resourceParents) {
-    for (const [key, value] of Object.entries(req.resourceParents)) {
-      if (value) {
-        const entityType = PARENT_TYPE_MAP[key as keyof ResourceParents];
-        if (entityType) {
-          resourceEntity.parents.push({
-            entityType: `Gazebo::${entityType}`,
-            entityId: value,
-          });
-        }
+  // Attributes from the hierarchy (Site, Cohort, ...) or the registry (Project, Claim, ...),
+  // plus createdBy if provided
+  resourceEntity.attributes = toEntityAttributes(req.resourceType, req.resourceId, {
+    ...resourceNode?.attributes,
+    ...registeredAttributes,
+    createdBy: req.resourceCreatedBy,
+  });
+
+  if (resourceNode) {
+    // The hierarchy is authoritative for its own entities: client parents are never added on top
+    const conflicts = findHierarchyConflicts(req, resourceNode);
+    if (conflicts.length > 0) {
+      if ((options.onResourceConflict ?? resourceConflictMode) === "reject") {
+        throw new ResourceRegistryError(
+          `Request conflicts with the hierarchy for ${req.resourceType} ${req.resourceId}`,
+          conflicts
+        );
+      }
+      console.warn(
+        `Ignoring client parents for ${req.resourceType} ${req.resourceId}:`,
+        conflicts.map((c) => c.field).join(", ")
+      );
+    }
+  } else if (isHierarchyEntityType(req.resourceType)) {
+    // Only the hierarchy places its own entities: when its lookup failed, the entity goes without
+    // parents rather than under whatever containers the request names
+    console.warn(`No hierarchy for ${req.resourceType} ${req.resourceId}: sending it without parents`);
+  } else {
+    // Add parent site if provided (for Project, Model, etc.)
+    if (req.resourceParentSite && req.resourceType !== "Site") {
+      addParent("Gazebo::Site", req.resourceParentSite);
+    }
+
+    // Add parents from resourceParents (flexible parent specification)
+    for (const [key, value] of Object.entries(req.resourceParents || {})) {
+      const entityType = PARENT_TYPE_MAP[key as keyof ResourceParents];
+      if (value && entityType) {
+        addParent(`Gazebo::${entityType}`, value);
       }
     }
   }
@@ -138,32 +307,30 @@ export async function buildEntities(
   addEntity(resourceEntity);
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // 4. Add remaining hierarchy entities (Site, Region, Organization)
-  //    This enables Cedar to traverse: Project → Site → Region → Organization
-  //    Note: If the resource IS a Site, it's already added above with proper parents
+  // 4. Add remaining hierarchy entities
+  //    This enables Cedar to traverse: Project → Site → Region → Organization → System
+  //    and Participation → Cohort → Program → Client → System
+  //    Note: the resource itself is already added above with its parents
   // ═══════════════════════════════════════════════════════════════════════════
-  if (hierarchyChain) {
-    for (const node of hierarchyChain.nodes) {
-      // Skip Site only if the resource itself is a Site (it's already added with parents)
-      // For Projects/Models, we still need to add the Site entity from hierarchy
-      if (node.type === "Site" && req.resourceType === "Site") {
-        continue;
-      }
-
-      addEntity({
-        identifier: {
-          entityType: `Gazebo::${node.type}`,
-          entityId: node.id,
-        },
-        attributes: {},
-        parents: node.parents.map((p) => ({
-          entityType: `Gazebo::${p.type}`,
-          entityId: p.id,
-        })),
-      });
+  for (const node of hierarchyNodes) {
+    if (node.type === req.resourceType && node.id === req.resourceId) {
+      continue;
     }
+
+    addEntity({
+      identifier: {
+        entityType: `Gazebo::${node.type}`,
+        entityId: node.id,
+      },
+      attributes: toEntityAttributes(node.type, node.id, node.attributes),
+      parents: node.parents.map((p) => ({
+        entityType: `Gazebo::${p.type}`,
+        entityId: p.id,
+      })),
+    });
   }
 
+  metrics.put("BuildEntitiesDuration", Date.now() - started, "Milliseconds");
   return { entityList: entities };
 }
 
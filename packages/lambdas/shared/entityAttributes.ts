@@ -0,0 +1,224 @@
+/**
+ * Entity Attributes - Converts plain attribute values into typed AVP attribute values.
+ *
+ * Hierarchy nodes and registered resources carry attributes as plain JSON
+ * (`{ name: "Industrial SEM 2024", startDate: "2024-01-01" }`). Each one is
+ * converted according to the attribute's type in authorization/schema.json:
+ *
+ *   String      "x"                          → { string: "x" }
+ *   Long        42                           → { long: 42 }
+ *   Boolean     true                         → { boolean: true }
+ *   Entity      "user-1" or { __entity: … }  → { entityIdentifier: { entityType: "Gazebo::User", … } }
+ *   Set         [...]                        → { set: [...] }
+ *   Record      { ... }                      → { record: { ... } }
+ *   Extension   "10.0.0.1" / "1.5"           → { ipaddr } / { decimal }
+ *
+ * Undeclared attributes, missing required ones and values of the wrong type
+ * raise EntityAttributeError, so a bad record fails here rather than in AVP.
+ */
+
+import { AttributeValue } from "@aws-sdk/client-verifiedpermissions";
+import schema from "../../../authorization/schema.json";
+import { ValidationIssue } from "./types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Reference to another entity, in Cedar JSON form (type without namespace) */
+export interface EntityAttributeReference {
+  __entity: { type: string; id: string };
+}
+
+export type EntityAttributeValue =
+  | string
+  | number
+  | boolean
+  | EntityAttributeReference
+  | EntityAttributeValue[]
+  | { [name: string]: EntityAttributeValue };
+
+/** Plain attribute values by name; undefined values are left out */
+export type EntityAttributes = Record<string, EntityAttributeValue | undefined>;
+
+interface SchemaType {
+  type: string;
+  name?: string;
+  element?: SchemaType;
+  attributes?: Record<string, SchemaAttribute>;
+}
+
+interface SchemaAttribute extends SchemaType {
+  required?: boolean;
+}
+
+interface SchemaEntityType {
+  shape?: { attributes?: Record<string, SchemaAttribute> };
+}
+
+/**
+ * Raised when attributes don't match the entity type's schema shape.
+ */
+export class EntityAttributeError extends Error {
+  constructor(
+    public readonly entityType: string,
+    public readonly entityId: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid attributes for ${entityType} ${entityId}: ${issues
+        .map((i) => `${i.field} ${i.message}`)
+        .join("; ")}`
+    );
+    this.name = "EntityAttributeError";
+  }
+}
+
+// =============================================================================
+// SCHEMA LOOKUPS
+// =============================================================================
+
+const NAMESPACE_NAME = "Gazebo";
+const ENTITY_TYPES = schema.Gazebo.entityTypes as Record<string, SchemaEntityType>;
+const COMMON_TYPES = schema.Gazebo.commonTypes as unknown as Record<string, SchemaType>;
+
+/**
+ * Declared attributes of an entity type (empty if it has none or is unknown).
+ */
+export function getEntityAttributeTypes(entityType: string): Record<string, SchemaAttribute> {
+  return ENTITY_TYPES[entityType]?.shape?.attributes || {};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Convert one value to the AVP form of `type`, collecting issues under `path`.
+ */
+function toAttributeValue(
+  value: unknown,
+  type: SchemaType,
+  path: string,
+  issues: ValidationIssue[]
+): AttributeValue | undefined {
+  const mismatch = (expected: string) => {
+    issues.push({ field: path, message: `Expected ${expected}, got ${JSON.stringify(value)}` });
+    return undefined;
+  };
+
+  switch (type.type) {
+    case "String":
+      return typeof value === "string" ? { string: value } : mismatch("a string");
+
+    case "Long":
+      return typeof value === "number" && Number.isSafeInteger(value)
+        ? { long: value }
+        : mismatch("an integer");
+
+    case "Boolean":
+      return typeof value === "boolean" ? { boolean: value } : mismatch("a boolean");
+
+    case "Entity": {
+      // A bare ID means an entity of the declared type
+      const ref =
+        typeof value === "string"
+          ? { type: type.name!, id: value }
+          : (value as EntityAttributeReference | null)?.__entity;
+      if (!ref || typeof ref.id !== "string" || ref.type !== type.name) {
+        return mismatch(`a ${type.name} ID or reference`);
+      }
+      return { entityIdentifier: { entityType: `${NAMESPACE_NAME}::${ref.type}`, entityId: ref.id } };
+    }
+
+    case "Set": {
+      if (!Array.isArray(value)) return mismatch("an array");
+      const set = value.map((element, i) =>
+        toAttributeValue(element, type.element!, `${path}[${i}]`, issues)
+      );
+      return set.every((v): v is AttributeValue => v !== undefined) ? { set } : undefined;
+    }
+
+    case "Record": {
+      if (!isRecord(value)) return mismatch("an object");
+      const record = toAttributeMap(value, type.attributes || {}, path, issues);
+      return record ? { record } : undefined;
+    }
+
+    case "Extension":
+      if (typeof value !== "string") return mismatch(`a ${type.name} string`);
+      if (type.name === "ipaddr") return { ipaddr: value };
+      if (type.name === "decimal") return { decimal: value };
+      issues.push({ field: path, message: `Unsupported extension type ${type.name}` });
+      return undefined;
+
+    default: {
+      // A common type (e.g. "RequestContext") declared in the schema
+      const common = COMMON_TYPES[type.type];
+      if (common) return toAttributeValue(value, common, path, issues);
+      issues.push({ field: path, message: `Unsupported schema type ${type.type}` });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Convert a set of named values against declared attribute types.
+ * Returns undefined if any issue was found.
+ */
+function toAttributeMap(
+  values: Record<string, unknown>,
+  declared: Record<string, SchemaAttribute>,
+  path: string,
+  issues: ValidationIssue[]
+): Record<string, AttributeValue> | undefined {
+  const before = issues.length;
+  const field = (name: string) => (path ? `${path}.${name}` : name);
+  const map: Record<string, AttributeValue> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    const type = declared[name];
+    if (!type) {
+      issues.push({ field: field(name), message: "Not declared in the schema" });
+      continue;
+    }
+    const converted = toAttributeValue(value, type, field(name), issues);
+    if (converted) map[name] = converted;
+  }
+
+  for (const [name, type] of Object.entries(declared)) {
+    // Cedar attributes are required unless declared otherwise
+    if (type.required !== false && values[name] === undefined) {
+      issues.push({ field: field(name), message: "Required by the schema" });
+    }
+  }
+
+  return issues.length === before ? map : undefined;
+}
+
+/**
+ * Convert an entity's attributes into AVP attribute values, checked against
+ * the entity type's shape in schema.json.
+ *
+ * @param entityType - Entity type without namespace, e.g. "Cohort"
+ * @param entityId - Entity ID (for error messages)
+ * @param attributes - Plain attribute values
+ * @throws EntityAttributeError
+ */
+export function toEntityAttributes(
+  entityType: string,
+  entityId: string,
+  attributes: EntityAttributes = {}
+): Record<string, AttributeValue> {
+  const issues: ValidationIssue[] = [];
+  const map = toAttributeMap(attributes, getEntityAttributeTypes(entityType), "", issues);
+  if (!map) {
+    throw new EntityAttributeError(entityType, entityId, issues);
+  }
+  return map;
+}
@@ -0,0 +1,183 @@
+/**
+ * Decision Explanation - Builds a trace of why a request was allowed or denied.
+ *
+ * Uses the same entities the engine evaluated, so the explanation follows the
+ * hierarchy Cedar actually traversed instead of guessing on the client:
+ *   1. Hierarchy path(s) from the resource to the root (Project → Site → Region → Organization → System)
+ *   2. Full text of each determining policy (template-linked: level, principal, bound resource)
+ *   3. For a deny: the user's nearest assignments in that hierarchy and what they lack
+ */
+
+import { Action, AuthRequest, PermissionLevel, PERMISSION_LEVELS } from "./types";
+import { EntityRef } from "./localPolicies";
+import { AuthorizationEntities, AuthorizationResult } from "./authorizationEngine";
+import { IPolicyCatalog, PolicyDescription } from "./policyCatalog";
+import { resolveAncestorPaths } from "./ancestorPaths";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ExplainedEntity extends EntityRef {
+  name?: string;
+}
+
+export interface AssignmentGap {
+  policyId: string;
+  templateName?: string;
+  resource: EntityRef;
+  /** Steps from the requested resource to the assignment's resource (0 = the resource itself) */
+  distance: number;
+  grants: Action[];
+  lacks: Action;
+}
+
+export interface DecisionExplanation {
+  summary: string;
+  hierarchy: {
+    path: string;
+    paths: ExplainedEntity[][];
+  };
+  policies: PolicyDescription[];
+  /** Deny only: assignments the user holds on the resource or its ancestors, nearest first */
+  nearestAssignments?: AssignmentGap[];
+  /** Deny only: least-privileged level that grants the action */
+  requiredLevel?: PermissionLevel;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function entityKey(ref: EntityRef): string {
+  return `${ref.entityType}::${ref.entityId}`;
+}
+
+function formatEntity(ref: ExplainedEntity): string {
+  const type = ref.entityType.replace(/^Gazebo::/, "");
+  return ref.name ? `${type} "${ref.name}"` : `${type} "${ref.entityId}"`;
+}
+
+function entityName(entities: AuthorizationEntities, ref: EntityRef): string | undefined {
+  const entity = entities.entityList.find((e) => entityKey(e.identifier as EntityRef) === entityKey(ref));
+  return entity?.attributes?.name?.string;
+}
+
+// =============================================================================
+// EXPLAIN
+// =============================================================================
+
+/**
+ * Explain an authorization result.
+ *
+ * @param req - The authorization request
+ * @param entities - Entities the engine evaluated (from buildEntities)
+ * @param result - The engine's decision
+ * @param catalog - Policy catalog matching the engine that made the decision
+ */
+export async function explainDecision(
+  req: AuthRequest,
+  entities: AuthorizationEntities,
+  result: AuthorizationResult,
+  catalog: IPolicyCatalog
+): Promise<DecisionExplanation> {
+  const resource: EntityRef = { entityType: `Gazebo::${req.resourceType}`, entityId: req.resourceId };
+
+  // 1. Hierarchy as Cedar sees it
+  const paths: ExplainedEntity[][] = resolveAncestorPaths(entities.entityList, resource).map(
+    (path) => path.map((ref) => ({ ...ref, name: entityName(entities, ref) }))
+  );
+  const distances = new Map<string, number>();
+  for (const path of paths) {
+    path.forEach((ref, i) => {
+      const key = entityKey(ref);
+      distances.set(key, Math.min(distances.get(key) ?? i, i));
+    });
+  }
+
+  const hierarchy = {
+    path: (paths[0] || []).map(formatEntity).join(" → "),
+    paths,
+  };
+
+  // 2. Determining policies
+  const described = await Promise.all(
+    result.determiningPolicies.map((p) => catalog.describePolicy(p.policyId))
+  );
+  const policies = described.filter((p): p is PolicyDescription => p !== null);
+
+  if (result.allowed) {
+    const reasons = policies.map((policy) => {
+      if (policy.policyType === "static") {
+        return `static policy ${policy.description || policy.policyId}`;
+      }
+      const bound = policy.resource!;
+      const distance = distances.get(entityKey(bound));
+      const via = distance ? ` (${distance} level${distance > 1 ? "s" : ""} above ${formatEntity(resource)})` : "";
+      return `the ${policy.templateName} assignment on ${formatEntity({ ...bound, name: entityName(entities, bound) })}${via}`;
+    });
+
+    return {
+      summary: `ALLOWED: ${req.action} on ${formatEntity(resource)} is permitted by ${reasons.join(" and ") || "a policy"}.`,
+      hierarchy,
+      policies,
+    };
+  }
+
+  // 3. Deny: what the user holds in this hierarchy, and what's missing
+  const assignments = await catalog.listUserAssignments(req.userId);
+  const nearestAssignments: AssignmentGap[] = [];
+  for (const assignment of assignments) {
+    const distance = assignment.resource ? distances.get(entityKey(assignment.resource)) : undefined;
+    if (distance === undefined) continue;
+
+    const grants = PERMISSION_LEVELS.includes(assignment.templateName as PermissionLevel)
+      ? await catalog.getTemplateActions(assignment.templateName as PermissionLevel)
+      : [];
+
+    nearestAssignments.push({
+      policyId: assignment.policyId,
+      templateName: assignment.templateName,
+      resource: assignment.resource!,
+      distance,
+      grants,
+      lacks: req.action,
+    });
+  }
+  nearestAssignments.sort((a, b) => a.distance - b.distance);
+
+  // Least-privileged level whose template includes the action. PERMISSION_LEVELS runs from
+  // most to least privileged, so on equal action counts the later (lower) level wins
+  let requiredLevel: PermissionLevel | undefined;
+  let requiredLevelSize = Infinity;
+  for (const level of PERMISSION_LEVELS) {
+    const actions = await catalog.getTemplateActions(level);
+    if (actions.includes(req.action) && actions.length <= requiredLevelSize) {
+      requiredLevel = level;
+      requiredLevelSize = actions.length;
+    }
+  }
+
+  let summary = `DENIED: no policy permits ${req.action} on ${formatEntity(resource)} for ${req.userId}.`;
+  const nearest = nearestAssignments[0];
+  if (nearest) {
+    const grants = nearest.grants.length ? nearest.grants.join(", ") : "other actions";
+    summary += ` Nearest assignment: ${nearest.templateName} on ${formatEntity({ ...nearest.resource, name: entityName(entities, nearest.resource) })}, which grants ${grants} but not ${req.action}.`;
+  } else {
+    summary += ` The user holds no assignments on this resource or its ancestors.`;
+  }
+  if (requiredLevel) {
+    summary += ` ${req.action} requires ${requiredLevel} (or higher) on the resource or an ancestor.`;
+  }
+  if (result.errors.length) {
+    summary += ` ${result.errors.length} policy evaluation error(s) occurred.`;
+  }
+
+  return {
+    summary,
+    hierarchy,
+    policies,
+    nearestAssignments,
+    requiredLevel,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * CachingHierarchyService: targeted invalidation and the hierarchy version.
+ */
+
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert";
+import { CachingHierarchyService } from "./hierarchyCache";
+import { CompanyEntityType, HierarchyChain, MockHierarchyService } from "./hierarchyService";
+import { IPolicyVersionStore } from "./policyVersion";
+
+/** Counts the lookups that reach the underlying service */
+class CountingHierarchyService extends MockHierarchyService {
+  lookups: string[] = [];
+  // Separate instance, so lookups it makes on its own behalf aren't counted
+  private inner = new MockHierarchyService();
+
+  async getSiteHierarchy(siteId: string): Promise<HierarchyChain> {
+    this.lookups.push(`Site:${siteId}`);
+    return this.inner.getSiteHierarchy(siteId);
+  }
+
+  async getCompanyHierarchy(entityType: CompanyEntityType, companyId: string): Promise<HierarchyChain> {
+    this.lookups.push(`${entityType}:${companyId}`);
+    return this.inner.getCompanyHierarchy(entityType, companyId);
+  }
+}
+
+class FakeVersionStore implements IPolicyVersionStore {
+  version = 1;
+
+  async getVersion(): Promise<number> {
+    return this.version;
+  }
+
+  async bump(): Promise<number> {
+    return ++this.version;
+  }
+}
+
+describe("CachingHierarchyService", () => {
+  let hierarchy: CountingHierarchyService;
+  let versions: FakeVersionStore;
+  let cache: CachingHierarchyService;
+
+  beforeEach(async () => {
+    hierarchy = new CountingHierarchyService();
+    versions = new FakeVersionStore();
+    cache = new CachingHierarchyService(
+      hierarchy,
+      { ttlMs: 60000, negativeTtlMs: 60000, maxEntries: 100, versionCheckIntervalMs: 0 },
+      versions
+    );
+
+    await cache.getSiteHierarchy("portland-manufacturing");  // Region 10
+    await cache.getSiteHierarchy("boston-office");  // Region 11
+    await cache.getCompanyHierarchy("Region", "10");
+    hierarchy.lookups = [];
+  });
+
+  const refetched = async () => {
+    await cache.getSiteHierarchy("portland-manufacturing");
+    await cache.getSiteHierarchy("boston-office");
+    await cache.getCompanyHierarchy("Region", "10");
+    return hierarchy.lookups;
+  };
+
+  it("serves repeated lookups from the cache", async () => {
+    assert.deepStrictEqual(await refetched(), []);
+  });
+
+  it("invalidateSite drops only that site's chain", async () => {
+    cache.invalidateSite("portland-manufacturing");
+
+    assert.deepStrictEqual(await refetched(), ["Site:portland-manufacturing"]);
+  });
+
+  it("invalidateCompany drops the company and every chain that passes through it", async () => {
+    cache.invalidateCompany("10");
+
+    assert.deepStrictEqual(await refetched(), ["Site:portland-manufacturing", "Region:10"]);
+  });
+
+  it("invalidateCompany drops chains through an Organization", async () => {
+    cache.invalidateCompany("1");
+
+    assert.deepStrictEqual(await refetched(), ["Site:portland-manufacturing", "Site:boston-office", "Region:10"]);
+  });
+
+  it("drops everything when the hierarchy version moves", async () => {
+    await versions.bump();
+
+    assert.deepStrictEqual(await refetched(), ["Site:portland-manufacturing", "Site:boston-office", "Region:10"]);
+    assert.strictEqual(cache.getStats().hierarchyVersion, 2);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Hierarchy Cache - Reuses hierarchy lookups across requests.
+ *
+ * The hierarchy changes rarely (a site moving region is an event, not a daily
+ * occurrence), but every authorization resolves a full ancestor chain. With
+ * the production hierarchy service that is two or three HTTP calls per check,
+ * so CachingHierarchyService keeps sites, companies and resolved chains in the
+ * Lambda container (docs/hierarchy-migration-plan.md, Option B):
+ *
+ *   - Entries expire after HIERARCHY_CACHE_TTL_MS; the least recently used are
+ *     evicted beyond HIERARCHY_CACHE_MAX_ENTRIES
+ *   - Missing entities (null sites/companies, HierarchyNotFoundError) are
+ *     cached for the shorter HIERARCHY_CACHE_NEGATIVE_TTL_MS; other failures
+ *     (HierarchyUnavailableError, ...) are never cached
+ *   - Concurrent misses for the same key share one lookup
+ *   - invalidateSite / invalidateCompany drop an entity and every cached chain
+ *     that passes through it, for change events to call
+ *   - Everything is dropped when the hierarchy version (bumped by the
+ *     hierarchy-events Lambda after each change) moves. Change events handled
+ *     in another Lambda reach the caches in authorize-api and authorizer
+ *     containers only this way
+ *
+ * Configuration:
+ *   HIERARCHY_CACHE_TTL_MS               - entry lifetime (default 300000, 0 disables)
+ *   HIERARCHY_CACHE_NEGATIVE_TTL_MS      - lifetime of "not found" entries (default 30000)
+ *   HIERARCHY_CACHE_MAX_ENTRIES          - size bound, least recently used evicted first (default 5000)
+ *   HIERARCHY_VERSION_CHECK_INTERVAL_MS  - how often the version is re-read (default 5000)
+ */
+
+import {
+  CompanyEntityType,
+  HierarchyChain,
+  HierarchyNotFoundError,
+  IHierarchyService,
+  ProgramEntityType,
+} from "./hierarchyService";
+import { Company, Participation, Site } from "./mockData";
+import { IPolicyVersionStore } from "./policyVersion";
+import { hierarchyVersionStore } from "./hierarchyStore";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface HierarchyCacheOptions {
+  ttlMs: number;
+  negativeTtlMs: number;
+  maxEntries: number;
+  versionCheckIntervalMs: number;
+}
+
+export interface HierarchyCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  /** Hits on cached "not found" results */
+  negativeHits: number;
+  /** Misses that joined a lookup already in flight */
+  coalesced: number;
+  size: number;
+  evictions: number;
+  invalidations: number;
+  hierarchyVersion: number | null;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  /** The value, or the HierarchyNotFoundError to rethrow */
+  value: unknown;
+  notFound: boolean;
+  expiresAt: number;
+  /** Entities the value was built from, e.g. ["Site:s1", "Region:10", "Organization:1"] */
+  dependsOn: string[];
+}
+
+export const DEFAULT_HIERARCHY_CACHE_OPTIONS: HierarchyCacheOptions = {
+  ttlMs: Number(process.env.HIERARCHY_CACHE_TTL_MS ?? 300000),
+  negativeTtlMs: Number(process.env.HIERARCHY_CACHE_NEGATIVE_TTL_MS ?? 30000),
+  maxEntries: Number(process.env.HIERARCHY_CACHE_MAX_ENTRIES || 5000),
+  versionCheckIntervalMs: Number(process.env.HIERARCHY_VERSION_CHECK_INTERVAL_MS ?? 5000),
+};
+
+function entityRef(type: string, id: string): string {
+  return `${type}:${id}`;
+}
+
+// =============================================================================
+// CACHING HIERARCHY SERVICE (decorator)
+// =============================================================================
+
+export class CachingHierarchyService implements IHierarchyService {
+  // Map iteration order = insertion order; re-inserting on hit gives LRU eviction
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private hits = 0;
+  private misses = 0;
+  private negativeHits = 0;
+  private coalesced = 0;
+  private evictions = 0;
+  private invalidations = 0;
+  private hierarchyVersion: number | null = null;
+  private lastVersionCheck = 0;
+
+  constructor(
+    private hierarchy: IHierarchyService,
+    private options: HierarchyCacheOptions = DEFAULT_HIERARCHY_CACHE_OPTIONS,
+    private versionStore: IPolicyVersionStore = hierarchyVersionStore
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0 && this.options.maxEntries > 0;
+  }
+
+  getSiteHierarchy(siteId: string): Promise<HierarchyChain> {
+    return this.cached(`chain:Site:${siteId}`, [entityRef("Site", siteId)], () =>
+      this.hierarchy.getSiteHierarchy(siteId)
+    );
+  }
+
+  getCompanyHierarchy(entityType: CompanyEntityType, companyId: string): Promise<HierarchyChain> {
+    return this.cached(`chain:${entityType}:${companyId}`, [entityRef(entityType, companyId)], () =>
+      this.hierarchy.getCompanyHierarchy(entityType, companyId)
+    );
+  }
+
+  getProgramHierarchy(entityType: ProgramEntityType, entityId: string): Promise<HierarchyChain> {
+    return this.cached(`chain:${entityType}:${entityId}`, [entityRef(entityType, entityId)], () =>
+      this.hierarchy.getProgramHierarchy(entityType, entityId)
+    );
+  }
+
+  getSiteParticipations(siteId: string): Promise<Participation[]> {
+    return this.cached(`participations:${siteId}`, [entityRef("Site", siteId)], () =>
+      this.hierarchy.getSiteParticipations(siteId)
+    );
+  }
+
+  getSite(siteId: string): Promise<Site | null> {
+    return this.cached(`site:${siteId}`, [entityRef("Site", siteId)], () =>
+      this.hierarchy.getSite(siteId)
+    );
+  }
+
+  getCompany(companyId: string): Promise<Company | null> {
+    // A company record is both the Region and the Organization with its ID
+    return this.cached(
+      `company:${companyId}`,
+      [entityRef("Region", companyId), entityRef("Organization", companyId)],
+      () => this.hierarchy.getCompany(companyId)
+    );
+  }
+
+  /**
+   * Drop a site and everything cached from it (its chain, its participations,
+   * and chains of resources below it). Call when a site is created, moved or deleted.
+   */
+  invalidateSite(siteId: string): void {
+    this.invalidate([entityRef("Site", siteId)]);
+  }
+
+  /**
+   * Drop a company (Region or Organization) and every cached chain that passes
+   * through it, so sites below a re-parented Region are resolved afresh.
+   */
+  invalidateCompany(companyId: string): void {
+    this.invalidate([entityRef("Region", companyId), entityRef("Organization", companyId)]);
+  }
+
+  /**
+   * Clear the cache if the hierarchy version moved since the last check.
+   * Version reads are rate-limited to one per versionCheckIntervalMs; a failed
+   * read keeps the cache (entries still expire on their TTL).
+   */
+  async checkHierarchyVersion(now: number = Date.now()): Promise<void> {
+    if (now - this.lastVersionCheck < this.options.versionCheckIntervalMs) return;
+    this.lastVersionCheck = now;
+
+    try {
+      const version = await this.versionStore.getVersion();
+      if (this.hierarchyVersion !== null && version !== this.hierarchyVersion) {
+        this.clear();
+      }
+      this.hierarchyVersion = version;
+    } catch (error) {
+      console.warn("Failed to read the hierarchy version:", error);
+    }
+  }
+
+  /**
+   * Drop everything. Lookups already under way may have read the old
+   * hierarchy: they still answer their callers, but aren't shared or stored.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+    this.invalidations++;
+  }
+
+  getStats(): HierarchyCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups ? this.hits / lookups : 0,
+      negativeHits: this.negativeHits,
+      coalesced: this.coalesced,
+      size: this.entries.size,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      hierarchyVersion: this.hierarchyVersion,
+      ttlMs: this.options.ttlMs,
+      maxEntries: this.options.maxEntries,
+    };
+  }
+
+  private invalidate(refs: string[]): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.dependsOn.some((ref) => refs.includes(ref))) this.entries.delete(key);
+    }
+    // Lookups already under way may have read the old hierarchy: they still answer
+    // their callers, but aren't shared with new ones or stored
+    this.inFlight.clear();
+    this.invalidations++;
+  }
+
+  private async cached<T>(key: string, dependsOn: string[], lookup: () => Promise<T>): Promise<T> {
+    if (!this.enabled) return lookup();
+
+    const now = Date.now();
+    await this.checkHierarchyVersion(now);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      if (entry.notFound) {
+        this.negativeHits++;
+        if (entry.value instanceof HierarchyNotFoundError) throw entry.value;
+      }
+      return entry.value as T;
+    }
+    if (entry) this.entries.delete(key);
+    this.misses++;
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    const promise = lookup();
+    this.inFlight.set(key, promise);
+    try {
+      const value = await promise;
+      this.store(key, promise, { value, notFound: value === null, dependsOn }, now);
+      return value;
+    } catch (error) {
+      if (error instanceof HierarchyNotFoundError) {
+        this.store(key, promise, { value: error, notFound: true, dependsOn }, now);
+      }
+      throw error;
+    } finally {
+      if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+    }
+  }
+
+  private store(
+    key: string,
+    promise: Promise<unknown>,
+    entry: Omit<CacheEntry, "expiresAt">,
+    now: number
+  ): void {
+    // Invalidated while in flight - the result may predate the change
+    if (this.inFlight.get(key) !== promise) return;
+
+    // A chain depends on every node in it, not just the entity it was asked for
+    const value = entry.value as Partial<HierarchyChain> | null;
+    const dependsOn = Array.isArray(value?.nodes)
+      ? [...entry.dependsOn, ...value.nodes.map((node) => entityRef(node.type, node.id))]
+      : entry.dependsOn;
+
+    this.entries.set(key, {
+      ...entry,
+      dependsOn,
+      expiresAt: now + (entry.notFound ? this.options.negativeTtlMs : this.options.ttlMs),
+    });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+}
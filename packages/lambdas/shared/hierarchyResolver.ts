@@ -0,0 +1,187 @@
+/**
+ * Request Hierarchy Resolver - Shares hierarchy lookups across one API request.
+ *
+ * A batch or filter request resolves many resources, but they usually sit on
+ * a handful of sites (or in a handful of cohorts). RequestHierarchyResolver
+ * wraps the hierarchy service for the lifetime of one request so each distinct
+ * ancestor chain is looked up once, however many items need it and however
+ * many of them are being built concurrently.
+ *
+ * The items' entities are then compared. Two items that describe the same
+ * entity differently (e.g. Project "p1" on site A in one item and on site B in
+ * another) can't share a BatchIsAuthorized call, so those items are flagged as
+ * conflicting instead of evaluated with whichever version happened to be
+ * merged into their chunk first.
+ */
+
+import { EntityItem } from "@aws-sdk/client-verifiedpermissions";
+import {
+  CompanyEntityType,
+  HierarchyChain,
+  IHierarchyService,
+  ProgramEntityType,
+} from "./hierarchyService";
+import { Company, Participation, Site } from "./mockData";
+import { ValidationIssue } from "./types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EntityConflict {
+  /** The entity described differently, e.g. Gazebo::Project::"p1" */
+  entity: string;
+  /** Indexes of the items that describe it differently from this one */
+  conflictsWith: number[];
+}
+
+// =============================================================================
+// PER-REQUEST HIERARCHY LOOKUPS
+// =============================================================================
+
+/**
+ * Shares one hierarchy lookup per entity across every item in a request.
+ * Failed lookups are shared too, so a missing site is only asked for once.
+ */
+export class RequestHierarchyResolver implements IHierarchyService {
+  private chains = new Map<string, Promise<HierarchyChain>>();
+
+  constructor(private hierarchy: IHierarchyService) {}
+
+  /** Distinct hierarchy chains looked up so far */
+  get lookups(): number {
+    return this.chains.size;
+  }
+
+  getSiteHierarchy(siteId: string): Promise<HierarchyChain> {
+    return this.memo(`Site::${siteId}`, () => this.hierarchy.getSiteHierarchy(siteId));
+  }
+
+  getCompanyHierarchy(entityType: CompanyEntityType, companyId: string): Promise<HierarchyChain> {
+    return this.memo(`${entityType}::${companyId}`, () =>
+      this.hierarchy.getCompanyHierarchy(entityType, companyId)
+    );
+  }
+
+  getProgramHierarchy(entityType: ProgramEntityType, entityId: string): Promise<HierarchyChain> {
+    return this.memo(`${entityType}::${entityId}`, () =>
+      this.hierarchy.getProgramHierarchy(entityType, entityId)
+    );
+  }
+
+  getSiteParticipations(siteId: string): Promise<Participation[]> {
+    return this.hierarchy.getSiteParticipations(siteId);
+  }
+
+  getSite(siteId: string): Promise<Site | null> {
+    return this.hierarchy.getSite(siteId);
+  }
+
+  getCompany(companyId: string): Promise<Company | null> {
+    return this.hierarchy.getCompany(companyId);
+  }
+
+  private memo(key: string, lookup: () => Promise<HierarchyChain>): Promise<HierarchyChain> {
+    let chain = this.chains.get(key);
+    if (!chain) {
+      chain = lookup();
+      this.chains.set(key, chain);
+    }
+    return chain;
+  }
+}
+
+// =============================================================================
+// ENTITY CONFLICTS
+// =============================================================================
+
+function entityKey(entity: EntityItem): string {
+  return `${entity.identifier!.entityType}::"${entity.identifier!.entityId}"`;
+}
+
+// Same value with object keys sorted, so equal entities serialize equally
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * What an item claims about an entity: its parents (in any order) and attributes.
+ */
+function describe(entity: EntityItem): string {
+  const parents = (entity.parents || []).map((p) => `${p.entityType}::${p.entityId}`).sort();
+  return JSON.stringify([parents, canonical(entity.attributes || {})]);
+}
+
+/**
+ * Find the items of a request that disagree about an entity's parents or
+ * attributes. Entities shared by several items (the User, Sites, Regions, ...)
+ * must be described the same way by all of them; every item involved in a
+ * disagreement is reported.
+ *
+ * @param itemEntities - Entities per item; undefined for items that weren't built
+ * @returns Conflicts per item index; items without conflicts are not listed
+ */
+export function findEntityConflicts(
+  itemEntities: Array<{ entityList: EntityItem[] } | undefined>
+): Map<number, EntityConflict[]> {
+  // entity key → description → items describing it that way
+  const versions = new Map<string, Map<string, number[]>>();
+
+  itemEntities.forEach((entities, i) => {
+    for (const entity of entities?.entityList || []) {
+      const key = entityKey(entity);
+      let byDescription = versions.get(key);
+      if (!byDescription) {
+        byDescription = new Map();
+        versions.set(key, byDescription);
+      }
+      const description = describe(entity);
+      const items = byDescription.get(description) || [];
+      if (!items.includes(i)) items.push(i);
+      byDescription.set(description, items);
+    }
+  });
+
+  const conflicts = new Map<number, EntityConflict[]>();
+  for (const [entity, byDescription] of versions) {
+    if (byDescription.size < 2) continue;
+
+    const groups = Array.from(byDescription.values());
+    for (const group of groups) {
+      const others = groups.filter((g) => g !== group).flat();
+      for (const i of group) {
+        const list = conflicts.get(i) || [];
+        list.push({ entity, conflictsWith: others });
+        conflicts.set(i, list);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Describe one item's conflicts as validation issues.
+ *
+ * @param conflicts - The item's entry in findEntityConflicts
+ * @param itemPath - Field path of an item, e.g. (i) => `requests[${i}]`
+ * @param index - The item's index
+ */
+export function conflictIssues(
+  conflicts: EntityConflict[],
+  itemPath: (i: number) => string,
+  index: number
+): ValidationIssue[] {
+  return conflicts.map((c) => ({
+    field: itemPath(index),
+    message: `${c.entity} is described differently by ${c.conflictsWith.map(itemPath).join(", ")}`,
+  }));
+}
@@ -0,0 +1,284 @@
+/**
+ * ProductionHierarchyService against a stub site-service / company-service
+ * on a local HTTP server.
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createHierarchyService,
+  HierarchyNotFoundError,
+  HierarchyUnavailableError,
+  ProductionHierarchyConfig,
+  ProductionHierarchyService,
+} from "./hierarchyService";
+
+// Path → responses in order (the last one repeats); "hang" never answers
+type StubResponse = { status: number; body?: unknown } | "hang";
+
+describe("ProductionHierarchyService", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let routes: Record<string, StubResponse[]>;
+  let requests: Array<{ path: string; authorization?: string }>;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const path = req.url || "";
+      requests.push({ path, authorization: req.headers.authorization });
+      const seen = requests.filter((r) => r.path === path).length;
+      const responses = routes[path] || [{ status: 404 }];
+      const response = responses[Math.min(seen, responses.length) - 1];
+      if (response === "hang") return;
+
+      res.statusCode = response.status;
+      res.setHeader("Content-Type", "application/json");
+      res.end(typeof response.body === "string" ? response.body : JSON.stringify(response.body ?? {}));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    routes = {
+      "/site/portland": [{ status: 200, body: { name: "Portland", companyId: "region:10" } }],
+      "/company/10": [{ status: 200, body: { name: "West Region", parentId: 1 } }],
+      "/company/1": [{ status: 200, body: { name: "Cascade Energy", parentId: null } }],
+    };
+  });
+
+  const service = (config: Partial<ProductionHierarchyConfig> = {}) =>
+    new ProductionHierarchyService({
+      companyServiceUrl: baseUrl,
+      siteServiceUrl: baseUrl,
+      timeoutMs: 200,
+      backoffMs: 10,
+      ...config,
+    });
+
+  it("resolves Site → Region → Organization", async () => {
+    const chain = await service().getSiteHierarchy("portland");
+
+    assert.deepStrictEqual(
+      chain.nodes.map((n) => `${n.type}:${n.id}`),
+      ["Site:portland", "Region:10", "Organization:1"]
+    );
+    assert.deepStrictEqual(chain.nodes[0].parents, [{ type: "Region", id: "10" }]);
+    assert.strictEqual(chain.path, "Cascade Energy → West Region → Portland");
+  });
+
+  describe("404", () => {
+    it("reports a missing site as HierarchyNotFoundError without retrying", async () => {
+      await assert.rejects(service().getSiteHierarchy("nope"), (error: Error) => {
+        assert.ok(error instanceof HierarchyNotFoundError);
+        assert.strictEqual(error.message, "Site not found: nope");
+        return true;
+      });
+      assert.strictEqual(requests.length, 1);
+    });
+
+    it("reports a missing Organization above a Region", async () => {
+      delete routes["/company/1"];
+
+      await assert.rejects(service().getSiteHierarchy("portland"), {
+        name: "HierarchyNotFoundError",
+        message: "Organization not found: 1",
+      });
+    });
+
+    it("reports a company of the other type as not found", async () => {
+      await assert.rejects(service().getCompanyHierarchy("Organization", "10"), {
+        name: "HierarchyNotFoundError",
+        message: "Organization not found: 10",
+      });
+    });
+  });
+
+  describe("retries", () => {
+    it("retries 5xx and 429 responses", async () => {
+      routes["/site/portland"] = [
+        { status: 503 },
+        { status: 429 },
+        { status: 200, body: { name: "Portland", companyId: "region:10" } },
+      ];
+
+      const chain = await service().getSiteHierarchy("portland");
+
+      assert.strictEqual(chain.nodes.length, 3);
+      assert.strictEqual(requests.filter((r) => r.path === "/site/portland").length, 3);
+    });
+
+    it("gives up after the configured retries", async () => {
+      routes["/site/portland"] = [{ status: 500 }];
+
+      await assert.rejects(service({ retries: 1 }).getSiteHierarchy("portland"), (error: Error) => {
+        assert.ok(error instanceof HierarchyUnavailableError);
+        assert.strictEqual(error.message, "site-service unavailable: HTTP 500");
+        assert.strictEqual(error.statusCode, 500);
+        return true;
+      });
+      assert.strictEqual(requests.length, 2);
+    });
+
+    it("doesn't retry other 4xx responses", async () => {
+      routes["/site/portland"] = [{ status: 403 }];
+
+      await assert.rejects(service().getSiteHierarchy("portland"), {
+        name: "HierarchyUnavailableError",
+        message: "site-service unavailable: HTTP 403",
+      });
+      assert.strictEqual(requests.length, 1);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("times out each attempt and retries", async () => {
+      routes["/site/portland"] = ["hang", { status: 200, body: { name: "Portland", companyId: "region:10" } }];
+
+      const chain = await service({ timeoutMs: 100 }).getSiteHierarchy("portland");
+
+      assert.strictEqual(chain.nodes.length, 3);
+      assert.strictEqual(requests.filter((r) => r.path === "/site/portland").length, 2);
+    });
+
+    it("stops the whole lookup at its deadline", async () => {
+      routes["/site/portland"] = ["hang"];
+      const started = Date.now();
+
+      await assert.rejects(
+        service({ timeoutMs: 200, retries: 5, deadlineMs: 300 }).getSiteHierarchy("portland"),
+        { name: "HierarchyUnavailableError", message: /^site-service unavailable: timed out after \d+ ms$/ }
+      );
+
+      // Without the deadline: 6 attempts × 200 ms plus backoff
+      const elapsed = Date.now() - started;
+      assert.ok(elapsed < 1000, `took ${elapsed} ms`);
+      assert.strictEqual(requests.length, 2);
+    });
+
+    it("shares the deadline between the calls of one lookup", async () => {
+      routes["/company/10"] = ["hang"];
+
+      await assert.rejects(
+        service({ timeoutMs: 200, retries: 5, deadlineMs: 300 }).getSiteHierarchy("portland"),
+        { name: "HierarchyUnavailableError", message: /^company-service unavailable/ }
+      );
+      assert.strictEqual(requests.filter((r) => r.path === "/company/10").length, 2);
+    });
+  });
+
+  describe("bad records", () => {
+    it("rejects a site without a valid companyId", async () => {
+      routes["/site/portland"] = [{ status: 200, body: { name: "Portland", companyId: "10" } }];
+
+      await assert.rejects(service().getSiteHierarchy("portland"), {
+        name: "HierarchyUnavailableError",
+        message: "site-service unavailable: invalid site record for portland",
+      });
+    });
+
+    it("rejects a company with a malformed parentId", async () => {
+      routes["/company/10"] = [{ status: 200, body: { name: "West Region", parentId: { id: 1 } } }];
+
+      await assert.rejects(service().getSiteHierarchy("portland"), {
+        name: "HierarchyUnavailableError",
+        message: "company-service unavailable: invalid company record for 10",
+      });
+    });
+
+    it("rejects a company whose parentId isn't a company ID", async () => {
+      for (const parentId of ["", "abc", 1.5, false]) {
+        routes["/company/10"] = [{ status: 200, body: { name: "West Region", parentId } }];
+
+        await assert.rejects(
+          service().getSiteHierarchy("portland"),
+          { message: "company-service unavailable: invalid company record for 10" },
+          `parentId ${JSON.stringify(parentId)}`
+        );
+      }
+    });
+
+    it("parses a parentId sent as a string", async () => {
+      routes["/company/10"] = [{ status: 200, body: { name: "West Region", parentId: "1" } }];
+
+      const company = await service().getCompany("10");
+
+      assert.deepStrictEqual(company, { companyId: 10, name: "West Region", parentId: 1 });
+    });
+
+    it("treats a non-numeric company ID as not found without calling the service", async () => {
+      await assert.rejects(service().getCompanyHierarchy("Region", "abc"), {
+        name: "HierarchyNotFoundError",
+        message: "Region not found: abc",
+      });
+      assert.strictEqual(requests.length, 0);
+    });
+
+    it("rejects a response that isn't JSON", async () => {
+      routes["/site/portland"] = [{ status: 200, body: "<html>" }];
+
+      await assert.rejects(service().getSiteHierarchy("portland"), {
+        name: "HierarchyUnavailableError",
+        message: "site-service unavailable: response is not JSON",
+      });
+    });
+  });
+
+  describe("credentials", () => {
+    it("sends the token from authToken as a bearer token", async () => {
+      await service({ authToken: async () => "secret-token" }).getSiteHierarchy("portland");
+
+      assert.deepStrictEqual(
+        requests.map((r) => r.authorization),
+        ["Bearer secret-token", "Bearer secret-token", "Bearer secret-token"]
+      );
+    });
+
+    it("reports a token that can't be read as unavailable", async () => {
+      const failing = service({
+        authToken: async () => {
+          throw new Error("AccessDeniedException");
+        },
+      });
+
+      await assert.rejects(failing.getSiteHierarchy("portland"), {
+        name: "HierarchyUnavailableError",
+        message: "site-service unavailable: no credentials: AccessDeniedException",
+      });
+      assert.strictEqual(requests.length, 0);
+    });
+  });
+
+  describe("configuration", () => {
+    it("rejects settings that would disable a timeout or retry forever", () => {
+      for (const config of [{ timeoutMs: NaN }, { deadlineMs: 0 }, { retries: -1 }, { retries: 1.5 }]) {
+        assert.throws(() => service(config), /Invalid ProductionHierarchyConfig\./, JSON.stringify(config));
+      }
+    });
+
+    it("rejects malformed environment settings", () => {
+      const env = {
+        HIERARCHY_SERVICE: "production",
+        COMPANY_SERVICE_URL: baseUrl,
+        SITE_SERVICE_URL: baseUrl,
+      };
+
+      assert.throws(() => createHierarchyService({ ...env, HIERARCHY_TIMEOUT_MS: "2s" }), {
+        message: 'Invalid HIERARCHY_TIMEOUT_MS "2s". Expected a whole number.',
+      });
+      assert.throws(() => createHierarchyService({ ...env, HIERARCHY_RETRIES: "-1" }), {
+        message: 'Invalid HIERARCHY_RETRIES "-1". Expected a whole number.',
+      });
+      const valid = createHierarchyService({ ...env, HIERARCHY_DEADLINE_MS: "3000" });
+      assert.ok(valid instanceof ProductionHierarchyService);
+    });
+  });
+});
@@ -1,30 +1,69 @@
 /**
  * Hierarchy Service - Resolves entity hierarchies for Cedar authorization.
  *
- * In production, this would query:
+ * In production (HIERARCHY_SERVICE=production), this queries:
  *   - company-service (DynamoDB) for organization/region data
  *   - site-service (OpenSearch) for site data
  *
- * For the POC sandbox, we use in-memory mock data.
+ * HIERARCHY_SERVICE=store reads denormalized snapshots of the same data from
+ * DynamoDB instead (see hierarchyStore.ts).
+ *
+ * For the POC sandbox (the default), we use in-memory mock data.
  *
  * Hierarchy model:
  *   Organization → Region → Site → Project/Model/etc.
+ *   System → Client → Program → Cohort → Participation / Cycle
+ *
+ * Every hierarchical type has an ancestor lookup: getSiteHierarchy,
+ * getCompanyHierarchy (Region, Organization) and getProgramHierarchy
+ * (Client, Program, Cohort, Cycle, Participation).
+ *
+ * A Site is also a member of each Participation that enrolls it, which bridges
+ * the two: program staff assigned on a Cohort see the enrolled Sites.
  *
  * A Region is a Company record with parentId set.
  * An Organization is a Company record with parentId = null.
  */
 
-import { MOCK_COMPANIES, MOCK_SITES, Company, Site } from "./mockData";
+import {
+  MOCK_CLIENTS,
+  MOCK_COHORTS,
+  MOCK_COMPANIES,
+  MOCK_CYCLES,
+  MOCK_PARTICIPATIONS,
+  MOCK_PROGRAMS,
+  MOCK_SITES,
+  Company,
+  Participation,
+  Site,
+} from "./mockData";
+import { EntityAttributes } from "./entityAttributes";
+import { CachedSecret } from "./secrets";
+import { currentChain, DynamoHierarchyStore, IHierarchyStore, isActiveParticipation } from "./hierarchyStore";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
+/** Program-layer entity types, resolved with getProgramHierarchy() */
+export type ProgramEntityType = "Client" | "Program" | "Cohort" | "Cycle" | "Participation";
+
+export const PROGRAM_ENTITY_TYPES: ProgramEntityType[] = ["Client", "Program", "Cohort", "Cycle", "Participation"];
+
+/** Org-layer entity types above Site, resolved with getCompanyHierarchy() */
+export type CompanyEntityType = "Region" | "Organization";
+
+export const COMPANY_ENTITY_TYPES: CompanyEntityType[] = ["Region", "Organization"];
+
+export type HierarchyEntityType = "Site" | "System" | CompanyEntityType | ProgramEntityType;
+
 export interface HierarchyNode {
-  type: "Site" | "Region" | "Organization";
+  type: HierarchyEntityType;
   id: string;
   name?: string;
-  parents: Array<{ type: "Region" | "Organization" | "System"; id: string }>;
+  /** Attribute values declared for the type in schema.json (name, startDate, ...) */
+  attributes?: EntityAttributes;
+  parents: Array<{ type: HierarchyEntityType; id: string }>;
 }
 
 export interface HierarchyChain {
@@ -32,6 +71,52 @@ export interface HierarchyChain {
   path: string;  // Human-readable path like "Cascade Energy → West Region → Portland Manufacturing"
 }
 
+/**
+ * Raised when an ancestor chain cannot be resolved.
+ */
+export class HierarchyLookupError extends Error {
+  constructor(
+    public readonly entityType: string,
+    public readonly entityId: string,
+    public readonly cause?: unknown
+  ) {
+    super(
+      `Hierarchy lookup failed for ${entityType} ${entityId}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = "HierarchyLookupError";
+  }
+}
+
+/**
+ * Raised when an entity in the chain doesn't exist.
+ */
+export class HierarchyNotFoundError extends Error {
+  constructor(
+    public readonly entityType: string,
+    public readonly entityId: string
+  ) {
+    super(`${entityType} not found: ${entityId}`);
+    this.name = "HierarchyNotFoundError";
+  }
+}
+
+/**
+ * Raised when a hierarchy service can't be reached, keeps failing, rejects our
+ * credentials or returns something we can't use. Lookups may succeed later.
+ */
+export class HierarchyUnavailableError extends Error {
+  constructor(
+    public readonly service: string,
+    message: string,
+    public readonly statusCode?: number
+  ) {
+    super(`${service} unavailable: ${message}`);
+    this.name = "HierarchyUnavailableError";
+  }
+}
+
 // =============================================================================
 // HIERARCHY SERVICE INTERFACE
 // =============================================================================
@@ -43,6 +128,25 @@ export interface IHierarchyService {
    */
   getSiteHierarchy(siteId: string): Promise<HierarchyChain>;
 
+  /**
+   * Get the full ancestor chain for a Region or Organization.
+   * Returns nodes from the entity up to its Organization, e.g.
+   *   Region → Organization (→ System)
+   */
+  getCompanyHierarchy(entityType: CompanyEntityType, companyId: string): Promise<HierarchyChain>;
+
+  /**
+   * Get the full ancestor chain for a program-layer entity.
+   * Returns nodes from the entity up to its Client, e.g.
+   *   Participation → Cohort → Program → Client (→ System)
+   */
+  getProgramHierarchy(entityType: ProgramEntityType, entityId: string): Promise<HierarchyChain>;
+
+  /**
+   * Get the active Participations (program enrollments) of a site.
+   */
+  getSiteParticipations(siteId: string): Promise<Participation[]>;
+
   /**
    * Get a site by ID.
    */
@@ -65,6 +169,9 @@ export class MockHierarchyService implements IHierarchyService {
    * Example outputs:
    *   Site in Region: Site:52 → Region:10 → Organization:1
    *   Site in Org:    Site:53 → Organization:1
+   *
+   * An enrolled site also lists its Participations as parents, and their
+   * Cohort → Program → Client chains are included in the nodes.
    */
   async getSiteHierarchy(siteId: string): Promise<HierarchyChain> {
     const nodes: HierarchyNode[] = [];
@@ -73,68 +180,138 @@ export class MockHierarchyService implements IHierarchyService {
     // 1. Fetch site
     const site = MOCK_SITES[siteId];
     if (!site) {
-      throw new Error(`Site not found: ${siteId}`);
+      throw new HierarchyNotFoundError("Site", siteId);
     }
 
     // 2. Parse companyId: "organization:123" or "region:456"
     const parentRef = this.parseCompanyId(site.companyId);
 
-    // 3. Fetch the parent company record
+    // 3. Fetch the parent company record and its chain
+    //    Region:     Site → Region → Organization
+    //    Org only:   Site → Organization
     const company = MOCK_COMPANIES[parentRef.id];
     if (!company) {
-      throw new Error(`Company not found: ${parentRef.id}`);
+      throw new HierarchyNotFoundError("Company", parentRef.id);
     }
+    const companyType: CompanyEntityType = company.parentId !== null ? "Region" : "Organization";
+    const companyChain = await this.getCompanyHierarchy(companyType, parentRef.id);
 
-    if (company.parentId !== null) {
-      // It's a Region (has a parent Organization)
-      // Chain: Site → Region → Organization
-
-      const org = MOCK_COMPANIES[String(company.parentId)];
-      if (!org) {
-        throw new Error(`Organization not found: ${company.parentId}`);
-      }
-
-      nodes.push({
+    nodes.push(
+      {
         type: "Site",
         id: siteId,
         name: site.name,
-        parents: [{ type: "Region", id: parentRef.id }],
-      });
+        attributes: { name: site.name },
+        parents: [{ type: companyType, id: parentRef.id }],
+      },
+      ...companyChain.nodes
+    );
+    pathParts.push(companyChain.path, site.name);
+
+    // 4. Bridge into the program layer through the site's Participations
+    const siteNode = nodes[0];
+    for (const participation of await this.getSiteParticipations(siteId)) {
+      try {
+        const chain = await this.getProgramHierarchy("Participation", participation.participationId);
+        siteNode.parents.push({ type: "Participation", id: participation.participationId });
+        for (const node of chain.nodes) {
+          if (!nodes.some((n) => n.type === node.type && n.id === node.id)) {
+            nodes.push(node);
+          }
+        }
+      } catch (error) {
+        // A broken enrollment only drops that bridge, not the site's own chain
+        console.warn(`Skipping participation ${participation.participationId} for site ${siteId}:`, error);
+      }
+    }
 
-      nodes.push({
-        type: "Region",
-        id: parentRef.id,
-        name: company.name,
-        parents: [{ type: "Organization", id: String(company.parentId) }],
-      });
+    return {
+      nodes,
+      path: pathParts.join(" → "),
+    };
+  }
 
-      nodes.push({
-        type: "Organization",
-        id: String(company.parentId),
-        name: org.name,
-        parents: [{ type: "System", id: "gazebo" }],
-      });
+  /**
+   * Get the full ancestor chain for a Region or Organization.
+   *
+   * Example outputs:
+   *   Region:10 → Organization:1 → System
+   *   Organization:1 → System
+   */
+  async getCompanyHierarchy(entityType: CompanyEntityType, companyId: string): Promise<HierarchyChain> {
+    // A Region is a company with a parent; an Organization is one without
+    const company = MOCK_COMPANIES[companyId];
+    if (!company || (company.parentId !== null) !== (entityType === "Region")) {
+      throw new HierarchyNotFoundError(entityType, companyId);
+    }
 
-      pathParts.push(org.name, company.name, site.name);
-    } else {
-      // It's an Organization (no parent)
-      // Chain: Site → Organization → System
+    if (company.parentId === null) {
+      return {
+        nodes: [
+          {
+            type: "Organization",
+            id: companyId,
+            name: company.name,
+            attributes: { name: company.name },
+            parents: [{ type: "System", id: "gazebo" }],
+          },
+        ],
+        path: company.name,
+      };
+    }
 
-      nodes.push({
-        type: "Site",
-        id: siteId,
-        name: site.name,
-        parents: [{ type: "Organization", id: parentRef.id }],
-      });
+    const org = MOCK_COMPANIES[String(company.parentId)];
+    if (!org) {
+      throw new HierarchyNotFoundError("Organization", String(company.parentId));
+    }
+
+    return {
+      nodes: [
+        {
+          type: "Region",
+          id: companyId,
+          name: company.name,
+          attributes: { name: company.name },
+          parents: [{ type: "Organization", id: String(company.parentId) }],
+        },
+        {
+          type: "Organization",
+          id: String(company.parentId),
+          name: org.name,
+          attributes: { name: org.name },
+          parents: [{ type: "System", id: "gazebo" }],
+        },
+      ],
+      path: `${org.name} → ${company.name}`,
+    };
+  }
+
+  /**
+   * Get the full ancestor chain for a program-layer entity.
+   *
+   * Example output:
+   *   Participation:part-001 → Cohort:cohort-2024 → Program:industrial-sem → Client:energy-trust
+   */
+  async getProgramHierarchy(entityType: ProgramEntityType, entityId: string): Promise<HierarchyChain> {
+    const nodes: HierarchyNode[] = [];
+    const pathParts: string[] = [];
+
+    let current: { type: HierarchyEntityType; id: string } = { type: entityType, id: entityId };
+    while (current.type !== "System") {
+      const record = this.findProgramRecord(current.type as ProgramEntityType, current.id);
+      if (!record) {
+        throw new HierarchyNotFoundError(current.type, current.id);
+      }
 
       nodes.push({
-        type: "Organization",
-        id: parentRef.id,
-        name: company.name,
-        parents: [{ type: "System", id: "gazebo" }],
+        type: current.type,
+        id: current.id,
+        name: record.name,
+        attributes: record.attributes,
+        parents: [record.parent],
       });
-
-      pathParts.push(company.name, site.name);
+      pathParts.unshift(record.name);
+      current = record.parent;
     }
 
     return {
@@ -143,6 +320,10 @@ export class MockHierarchyService implements IHierarchyService {
     };
   }
 
+  async getSiteParticipations(siteId: string): Promise<Participation[]> {
+    return Object.values(MOCK_PARTICIPATIONS).filter((p) => p.siteId === siteId && isActiveParticipation(p));
+  }
+
   async getSite(siteId: string): Promise<Site | null> {
     return MOCK_SITES[siteId] || null;
   }
@@ -151,6 +332,71 @@ export class MockHierarchyService implements IHierarchyService {
     return MOCK_COMPANIES[companyId] || null;
   }
 
+  /**
+   * Name, attributes and parent of one program-layer record, or null if it doesn't exist.
+   */
+  private findProgramRecord(
+    type: ProgramEntityType,
+    id: string
+  ): {
+    name: string;
+    attributes: EntityAttributes;
+    parent: { type: HierarchyEntityType; id: string };
+  } | null {
+    switch (type) {
+      case "Participation": {
+        const participation = MOCK_PARTICIPATIONS[id];
+        return participation
+          ? {
+              name: id,
+              attributes: { joinDate: participation.joinDate, leaveDate: participation.leaveDate },
+              parent: { type: "Cohort", id: participation.cohortId },
+            }
+          : null;
+      }
+      case "Cycle": {
+        const cycle = MOCK_CYCLES[id];
+        return cycle
+          ? {
+              name: cycle.name,
+              attributes: { name: cycle.name, type: cycle.type },
+              parent: { type: "Cohort", id: cycle.cohortId },
+            }
+          : null;
+      }
+      case "Cohort": {
+        const cohort = MOCK_COHORTS[id];
+        return cohort
+          ? {
+              name: cohort.name,
+              attributes: { name: cohort.name, startDate: cohort.startDate, endDate: cohort.endDate },
+              parent: { type: "Program", id: cohort.programId },
+            }
+          : null;
+      }
+      case "Program": {
+        const program = MOCK_PROGRAMS[id];
+        return program
+          ? {
+              name: program.name,
+              attributes: { name: program.name, implementerId: program.implementerId },
+              parent: { type: "Client", id: program.clientId },
+            }
+          : null;
+      }
+      case "Client": {
+        const client = MOCK_CLIENTS[id];
+        return client
+          ? {
+              name: client.name,
+              attributes: { name: client.name },
+              parent: { type: "System", id: "gazebo" },
+            }
+          : null;
+      }
+    }
+  }
+
   private parseCompanyId(companyId: string): { type: "organization" | "region"; id: string } {
     const [type, id] = companyId.split(":");
     if (type === "organization" || type === "region") {
@@ -161,41 +407,415 @@ export class MockHierarchyService implements IHierarchyService {
 }
 
 // =============================================================================
-// PRODUCTION HIERARCHY SERVICE (stub for future implementation)
+// PRODUCTION HIERARCHY SERVICE (company-service / site-service over HTTP)
 // =============================================================================
 
+export interface ProductionHierarchyConfig {
+  companyServiceUrl: string;
+  siteServiceUrl: string;
+  /** Per-attempt timeout (default 2000 ms) */
+  timeoutMs?: number;
+  /**
+   * Budget for one lookup: every call it makes (site → region → organization)
+   * and every retry of them (default 5000 ms). Keeps a lookup inside the
+   * caller's own timeout, e.g. the route authorizer's 10 s.
+   */
+  deadlineMs?: number;
+  /** Retries after the first attempt for timeouts, network errors, 429 and 5xx (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one (default 100 ms) */
+  backoffMs?: number;
+  /** Headers sent with every call */
+  headers?: Record<string, string>;
+  /** Bearer token sent with every call, read when needed (e.g. CachedSecret.get) */
+  authToken?: () => Promise<string>;
+}
+
+// Statuses worth retrying: throttling and server-side failures
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A company ID given as an integer or a string of digits, e.g. 10 or "10";
+ * null for anything else ("", "abc", 1.5, {}), rather than NaN or company 0.
+ */
+export function toCompanyId(value: unknown): number | null {
+  if (typeof value === "number") return Number.isInteger(value) ? value : null;
+  return typeof value === "string" && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * A numeric setting, or its default. Invalid values (NaN from a malformed
+ * environment variable, negative or fractional counts) throw rather than
+ * silently disabling a timeout.
+ */
+function checkSetting(
+  name: keyof ProductionHierarchyConfig,
+  value: number | undefined,
+  fallback: number,
+  { min, integer = false }: { min: number; integer?: boolean }
+): number {
+  const result = value ?? fallback;
+  if (!Number.isFinite(result) || result < min || (integer && !Number.isInteger(result))) {
+    throw new Error(`Invalid ProductionHierarchyConfig.${name}: ${value}`);
+  }
+  return result;
+}
+
+/**
+ * Resolves the org hierarchy from the services that own it, following
+ * docs/hierarchy-migration-plan.md:
+ *
+ *   GET {siteServiceUrl}/site/{siteId}          → { siteId, name, companyId: "region:10" }
+ *   GET {companyServiceUrl}/company/{companyId} → { companyId, name, parentId }
+ *   GET {companyServiceUrl}/company/{parentId}  → the Organization (Regions only)
+ *
+ * 404s become HierarchyNotFoundError; everything else that goes wrong (after
+ * retries, or once the lookup's deadline has passed) becomes
+ * HierarchyUnavailableError. The program layer has no service
+ * yet, so program chains are unavailable and sites have no Participations.
+ */
 export class ProductionHierarchyService implements IHierarchyService {
+  private timeoutMs: number;
+  private deadlineMs: number;
+  private retries: number;
+  private backoffMs: number;
+
+  constructor(
+    private config: ProductionHierarchyConfig,
+    private fetchFn: typeof fetch = fetch
+  ) {
+    this.timeoutMs = checkSetting("timeoutMs", config.timeoutMs, 2000, { min: 1 });
+    this.deadlineMs = checkSetting("deadlineMs", config.deadlineMs, 5000, { min: 1 });
+    this.retries = checkSetting("retries", config.retries, 2, { min: 0, integer: true });
+    this.backoffMs = checkSetting("backoffMs", config.backoffMs, 100, { min: 0 });
+  }
+
+  async getSiteHierarchy(siteId: string): Promise<HierarchyChain> {
+    const deadline = this.deadline();
+
+    // 1. Fetch site from site-service
+    const site = await this.getSite(siteId, deadline);
+    if (!site) {
+      throw new HierarchyNotFoundError("Site", siteId);
+    }
+
+    // 2. Parse companyId: "organization:123" or "region:456"
+    const [prefix, companyId] = site.companyId.split(":");
+    const companyType: CompanyEntityType = prefix === "region" ? "Region" : "Organization";
+
+    // 3. Fetch the company chain: Region → Organization, or Organization
+    const companyChain = await this.getCompanyHierarchy(companyType, companyId, deadline);
+
+    return {
+      nodes: [
+        {
+          type: "Site",
+          id: siteId,
+          name: site.name,
+          attributes: { name: site.name },
+          parents: [{ type: companyType, id: companyId }],
+        },
+        ...companyChain.nodes,
+      ],
+      path: `${companyChain.path} → ${site.name}`,
+    };
+  }
+
+  async getCompanyHierarchy(
+    entityType: CompanyEntityType,
+    companyId: string,
+    deadline: number = this.deadline()
+  ): Promise<HierarchyChain> {
+    const company = await this.getCompany(companyId, deadline);
+    // A Region is a company with a parent; an Organization is one without
+    if (!company || (company.parentId !== null) !== (entityType === "Region")) {
+      throw new HierarchyNotFoundError(entityType, companyId);
+    }
+
+    const orgNode = (id: string, org: Company): HierarchyNode => ({
+      type: "Organization",
+      id,
+      name: org.name,
+      attributes: { name: org.name },
+      parents: [{ type: "System", id: "gazebo" }],
+    });
+
+    if (company.parentId === null) {
+      return { nodes: [orgNode(companyId, company)], path: company.name };
+    }
+
+    const orgId = String(company.parentId);
+    const org = await this.getCompany(orgId, deadline);
+    if (!org) {
+      throw new HierarchyNotFoundError("Organization", orgId);
+    }
+
+    return {
+      nodes: [
+        {
+          type: "Region",
+          id: companyId,
+          name: company.name,
+          attributes: { name: company.name },
+          parents: [{ type: "Organization", id: orgId }],
+        },
+        orgNode(orgId, org),
+      ],
+      path: `${org.name} → ${company.name}`,
+    };
+  }
+
+  async getProgramHierarchy(entityType: ProgramEntityType, _entityId: string): Promise<HierarchyChain> {
+    throw new HierarchyUnavailableError("program-service", `no service configured for ${entityType} lookups`);
+  }
+
+  async getSiteParticipations(_siteId: string): Promise<Participation[]> {
+    // No program-service yet: sites aren't bridged into the program layer
+    return [];
+  }
+
+  async getSite(siteId: string, deadline: number = this.deadline()): Promise<Site | null> {
+    const body = await this.get(
+      "site-service",
+      `${this.config.siteServiceUrl}/site/${encodeURIComponent(siteId)}`,
+      deadline
+    );
+    if (body === null) return null;
+
+    const companyId = isRecord(body) ? body.companyId : undefined;
+    if (!isRecord(body) || typeof companyId !== "string" || !/^(organization|region):\d+$/.test(companyId)) {
+      throw new HierarchyUnavailableError("site-service", `invalid site record for ${siteId}`);
+    }
+    return {
+      siteId,
+      name: typeof body.name === "string" ? body.name : siteId,
+      companyId,
+      timezone: typeof body.timezone === "string" ? body.timezone : "",
+    };
+  }
+
+  async getCompany(companyId: string, deadline: number = this.deadline()): Promise<Company | null> {
+    // Company IDs are numbers: anything else names no company
+    const id = toCompanyId(companyId);
+    if (id === null) return null;
+
+    const body = await this.get(
+      "company-service",
+      `${this.config.companyServiceUrl}/company/${encodeURIComponent(companyId)}`,
+      deadline
+    );
+    if (body === null) return null;
+
+    const hasParent = isRecord(body) && body.parentId !== null && body.parentId !== undefined;
+    const parentId = hasParent ? toCompanyId(body.parentId) : null;
+    if (!isRecord(body) || (hasParent && parentId === null)) {
+      throw new HierarchyUnavailableError("company-service", `invalid company record for ${companyId}`);
+    }
+    return {
+      companyId: id,
+      name: typeof body.name === "string" ? body.name : companyId,
+      parentId,
+    };
+  }
+
+  // When a lookup starting now must be done by
+  private deadline(): number {
+    return Date.now() + this.deadlineMs;
+  }
+
+  private async headers(service: string): Promise<Record<string, string>> {
+    const headers = { Accept: "application/json", ...this.config.headers };
+    if (!this.config.authToken) return headers;
+
+    try {
+      return { ...headers, Authorization: `Bearer ${await this.config.authToken()}` };
+    } catch (error) {
+      throw new HierarchyUnavailableError(service, `no credentials: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * GET a JSON document, retrying transient failures with exponential backoff
+   * for as long as the lookup's deadline allows. Returns null on 404.
+   */
+  private async get(service: string, url: string, deadline: number): Promise<unknown> {
+    const headers = await this.headers(service);
+    let lastError: HierarchyUnavailableError | undefined;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.backoffMs * 2 ** (attempt - 1);
+        if (Date.now() + delay >= deadline) break;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      // The last attempt only gets what is left of the lookup's budget
+      const timeoutMs = Math.min(this.timeoutMs, deadline - Date.now());
+      if (timeoutMs <= 0) break;
+
+      let response: Response;
+      try {
+        response = await this.fetchFn(url, { headers, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        lastError = new HierarchyUnavailableError(
+          service,
+          timedOut ? `timed out after ${timeoutMs} ms` : `request failed: ${(error as Error).message}`
+        );
+        continue;
+      }
+
+      if (response.status === 404) return null;
+
+      if (!response.ok) {
+        lastError = new HierarchyUnavailableError(service, `HTTP ${response.status}`, response.status);
+        if (isRetryable(response.status)) continue;
+        throw lastError;
+      }
+
+      try {
+        return await response.json();
+      } catch {
+        throw new HierarchyUnavailableError(service, "response is not JSON", response.status);
+      }
+    }
+
+    // Out of attempts, or out of time (possibly before the first one)
+    throw lastError ?? new HierarchyUnavailableError(service, `lookup deadline of ${this.deadlineMs} ms passed`);
+  }
+}
+
+// =============================================================================
+// STORE HIERARCHY SERVICE (DynamoDB snapshots)
+// =============================================================================
+
+/**
+ * Resolves chains from the denormalized snapshots in the hierarchy store:
+ * one GetItem per site, region, organization or participation.
+ *
+ * Only Participations of the program layer are snapshotted (they bridge
+ * sites into it); Client, Program, Cohort and Cycle chains go to `programs`.
+ * Site snapshots hold every participation, and only the active ones are
+ * returned, as with the mock service.
+ */
+export class StoreHierarchyService implements IHierarchyService {
   constructor(
-    private companyServiceUrl: string,
-    private siteServiceUrl: string
+    private store: IHierarchyStore,
+    private programs: IHierarchyService
   ) {}
 
-  async getSiteHierarchy(_siteId: string): Promise<HierarchyChain> {
-    // In production, this would:
-    // 1. GET ${siteServiceUrl}/site/${siteId}
-    // 2. Parse companyId from response
-    // 3. GET ${companyServiceUrl}/company/${companyId}
-    // 4. If parentId exists, GET the parent org
-    // 5. Build and return the chain
+  async getSiteHierarchy(siteId: string): Promise<HierarchyChain> {
+    const snapshot = await this.store.getSnapshot("Site", siteId);
+    if (!snapshot) {
+      throw new HierarchyNotFoundError("Site", siteId);
+    }
+    return currentChain(snapshot);
+  }
+
+  async getCompanyHierarchy(entityType: CompanyEntityType, companyId: string): Promise<HierarchyChain> {
+    const snapshot = await this.store.getSnapshot(entityType, companyId);
+    if (!snapshot) {
+      throw new HierarchyNotFoundError(entityType, companyId);
+    }
+    return snapshot.chain;
+  }
+
+  async getProgramHierarchy(entityType: ProgramEntityType, entityId: string): Promise<HierarchyChain> {
+    if (entityType !== "Participation") {
+      return this.programs.getProgramHierarchy(entityType, entityId);
+    }
+    const snapshot = await this.store.getSnapshot("Participation", entityId);
+    if (!snapshot) {
+      throw new HierarchyNotFoundError(entityType, entityId);
+    }
+    return snapshot.chain;
+  }
 
-    throw new Error("ProductionHierarchyService not implemented - use MockHierarchyService for POC");
+  async getSiteParticipations(siteId: string): Promise<Participation[]> {
+    const snapshot = await this.store.getSnapshot("Site", siteId);
+    return (snapshot?.participations || []).filter((p) => isActiveParticipation(p));
   }
 
   async getSite(siteId: string): Promise<Site | null> {
-    const response = await fetch(`${this.siteServiceUrl}/site/${siteId}`);
-    if (!response.ok) return null;
-    return response.json() as Promise<Site>;
+    const snapshot = await this.store.getSnapshot("Site", siteId);
+    return snapshot?.site ?? null;
   }
 
   async getCompany(companyId: string): Promise<Company | null> {
-    const response = await fetch(`${this.companyServiceUrl}/company/${companyId}`);
-    if (!response.ok) return null;
-    return response.json() as Promise<Company>;
+    // Stored under its entity type, which the caller doesn't know
+    const [region, org] = await Promise.all([
+      this.store.getSnapshot("Region", companyId),
+      this.store.getSnapshot("Organization", companyId),
+    ]);
+    return (region || org)?.company ?? null;
   }
 }
 
 // =============================================================================
-// SINGLETON INSTANCE FOR POC
+// SINGLETON INSTANCE
 // =============================================================================
 
-export const hierarchyService: IHierarchyService = new MockHierarchyService();
+// A whole-number environment setting, or undefined for the default
+function numberSetting(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === "") return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${name} "${value}". Expected a whole number.`);
+  }
+  return Number(value);
+}
+
+/**
+ * Create the hierarchy service selected by HIERARCHY_SERVICE:
+ *   "mock" (default) - in-memory data from mockData.ts
+ *   "production"     - company-service / site-service at COMPANY_SERVICE_URL and
+ *                      SITE_SERVICE_URL, authenticated with the bearer token in the
+ *                      Secrets Manager secret HIERARCHY_SERVICE_TOKEN_SECRET
+ *                      (timeouts/retries: HIERARCHY_TIMEOUT_MS, HIERARCHY_DEADLINE_MS,
+ *                      HIERARCHY_RETRIES)
+ *   "store"          - snapshots in the HIERARCHY_TABLE DynamoDB table (program
+ *                      layer above Participations from mock data)
+ */
+export function createHierarchyService(env: NodeJS.ProcessEnv = process.env): IHierarchyService {
+  const type = (env.HIERARCHY_SERVICE || "mock").toLowerCase();
+  switch (type) {
+    case "mock":
+      return new MockHierarchyService();
+    case "production": {
+      if (!env.COMPANY_SERVICE_URL || !env.SITE_SERVICE_URL) {
+        throw new Error("HIERARCHY_SERVICE=production requires COMPANY_SERVICE_URL and SITE_SERVICE_URL");
+      }
+      const tokenSecret = env.HIERARCHY_SERVICE_TOKEN_SECRET
+        ? new CachedSecret(env.HIERARCHY_SERVICE_TOKEN_SECRET)
+        : null;
+      return new ProductionHierarchyService({
+        companyServiceUrl: env.COMPANY_SERVICE_URL.replace(/\/+$/, ""),
+        siteServiceUrl: env.SITE_SERVICE_URL.replace(/\/+$/, ""),
+        timeoutMs: numberSetting(env, "HIERARCHY_TIMEOUT_MS"),
+        deadlineMs: numberSetting(env, "HIERARCHY_DEADLINE_MS"),
+        retries: numberSetting(env, "HIERARCHY_RETRIES"),
+        authToken: tokenSecret ? () => tokenSecret.get() : undefined,
+      });
+    }
+    case "store":
+      if (!env.HIERARCHY_TABLE) {
+        throw new Error("HIERARCHY_SERVICE=store requires HIERARCHY_TABLE");
+      }
+      return new StoreHierarchyService(
+        new DynamoHierarchyStore(env.HIERARCHY_TABLE),
+        new MockHierarchyService()
+      );
+    default:
+      throw new Error(
+        `Unknown HIERARCHY_SERVICE "${env.HIERARCHY_SERVICE}". Expected "mock", "production" or "store".`
+      );
+  }
+}
+
+export const hierarchyService: IHierarchyService = createHierarchyService();
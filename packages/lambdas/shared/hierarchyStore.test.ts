@@ -0,0 +1,237 @@
+/**
+ * DynamoHierarchyStore against an in-memory stand-in for the DynamoDB client,
+ * and the snapshots the loader builds from mock data.
+ */
+
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  AttributeValue,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  buildHierarchySnapshots,
+  currentChain,
+  DynamoHierarchyStore,
+  HIERARCHY_PARENT_INDEX,
+  HierarchySnapshot,
+  InMemoryHierarchyStore,
+} from "./hierarchyStore";
+import { MockHierarchyService, StoreHierarchyService } from "./hierarchyService";
+import { MOCK_COMPANIES, MOCK_PARTICIPATIONS, MOCK_SITES, Participation } from "./mockData";
+
+type Item = Record<string, AttributeValue>;
+
+/**
+ * The table and its byParent index, answering the commands the store sends.
+ * Queries return one item per page so pagination is exercised.
+ */
+class FakeDynamoClient {
+  items = new Map<string, Item>();
+  queries: QueryCommand["input"][] = [];
+
+  async send(command: unknown): Promise<unknown> {
+    if (command instanceof GetItemCommand) {
+      return { Item: this.items.get(command.input.Key!.pk.S!) };
+    }
+    if (command instanceof PutItemCommand) {
+      this.items.set(command.input.Item!.pk.S!, command.input.Item!);
+      return {};
+    }
+    if (command instanceof DeleteItemCommand) {
+      this.items.delete(command.input.Key!.pk.S!);
+      return {};
+    }
+    if (command instanceof QueryCommand) {
+      this.queries.push(command.input);
+      const parent = command.input.ExpressionAttributeValues![":parent"].S;
+      const matching = Array.from(this.items.values())
+        .filter((item) => item.parent?.S === parent)
+        .sort((a, b) => a.pk.S!.localeCompare(b.pk.S!));
+      const start = command.input.ExclusiveStartKey?.pk.S;
+      const page = matching.filter((item) => start === undefined || item.pk.S! > start).slice(0, 1);
+      const last = page[0] && page[0] !== matching[matching.length - 1] ? { pk: page[0].pk } : undefined;
+      return { Items: page, LastEvaluatedKey: last };
+    }
+    throw new Error(`Unexpected command ${(command as object).constructor.name}`);
+  }
+}
+
+async function mockSnapshots(participations: Participation[] = Object.values(MOCK_PARTICIPATIONS)) {
+  return buildHierarchySnapshots(
+    { companies: Object.values(MOCK_COMPANIES), sites: Object.values(MOCK_SITES), participations },
+    new MockHierarchyService()
+  );
+}
+
+const ids = (snapshots: HierarchySnapshot[]) => snapshots.map((s) => `${s.entityType}:${s.entityId}`).sort();
+
+describe("DynamoHierarchyStore", () => {
+  let client: FakeDynamoClient;
+  let store: DynamoHierarchyStore;
+  let snapshots: HierarchySnapshot[];
+
+  beforeEach(async () => {
+    client = new FakeDynamoClient();
+    store = new DynamoHierarchyStore("hierarchy", client as unknown as DynamoDBClient);
+    ({ snapshots } = await mockSnapshots());
+    for (const snapshot of snapshots) await store.putSnapshot(snapshot);
+  });
+
+  it("round-trips a site snapshot", async () => {
+    const stored = await store.getSnapshot("Site", "portland-manufacturing");
+    const built = snapshots.find((s) => s.entityType === "Site" && s.entityId === "portland-manufacturing");
+
+    // Stored as JSON, so undefined fields (an open leaveDate, a Site's company) don't survive
+    const json = (value: unknown) => JSON.parse(JSON.stringify(value));
+    assert.deepStrictEqual(json(stored), json(built));
+  });
+
+  it("keys items by type and ID, with the direct parent for the index", () => {
+    const item = client.items.get("Site#portland-manufacturing")!;
+
+    assert.strictEqual(item.parent.S, "Region#10");
+    assert.strictEqual(client.items.get("Region#10")!.parent.S, "Organization#1");
+    // Organizations sit directly under System, which isn't stored
+    assert.strictEqual(client.items.get("Organization#1")!.parent, undefined);
+  });
+
+  it("returns null for an entity that isn't stored", async () => {
+    assert.strictEqual(await store.getSnapshot("Site", "nope"), null);
+  });
+
+  it("deletes a snapshot", async () => {
+    await store.deleteSnapshot("Site", "boston-office");
+
+    assert.strictEqual(await store.getSnapshot("Site", "boston-office"), null);
+  });
+
+  describe("listChildren", () => {
+    it("queries the byParent index and follows every page", async () => {
+      const children = await store.listChildren("Region", "10");
+
+      assert.deepStrictEqual(ids(children), ["Site:portland-manufacturing", "Site:seattle-hq"]);
+      assert.strictEqual(client.queries.length, 2);
+      assert.ok(client.queries.every((q) => q.IndexName === HIERARCHY_PARENT_INDEX));
+      assert.deepStrictEqual(client.queries[1].ExclusiveStartKey, { pk: { S: "Site#portland-manufacturing" } });
+    });
+
+    it("lists the Regions and Sites directly under an Organization", async () => {
+      const children = await store.listChildren("Organization", "1");
+
+      assert.deepStrictEqual(ids(children), ["Region:10", "Region:11", "Site:cascade-corporate"]);
+    });
+
+    it("lists sites by their company, not their participations", async () => {
+      assert.deepStrictEqual(await store.listChildren("Participation", "part-001"), []);
+    });
+
+    it("matches the in-memory store", async () => {
+      const memory = new InMemoryHierarchyStore(snapshots);
+
+      for (const [type, id] of [["Organization", "1"], ["Region", "11"], ["Region", "201"]] as const) {
+        assert.deepStrictEqual(ids(await store.listChildren(type, id)), ids(await memory.listChildren(type, id)));
+      }
+    });
+  });
+});
+
+describe("site snapshots and participations", () => {
+  const ended: Participation = {
+    participationId: "part-ended",
+    cohortId: "bpa-cohort-2024",
+    siteId: "portland-manufacturing",
+    joinDate: "2024-01-01",
+    leaveDate: "2025-06-30",
+  };
+
+  it("keeps every participation, ended ones included", async () => {
+    const { snapshots } = await mockSnapshots([...Object.values(MOCK_PARTICIPATIONS), ended]);
+    const site = snapshots.find((s) => s.entityType === "Site" && s.entityId === "portland-manufacturing")!;
+
+    assert.deepStrictEqual(
+      site.participations!.map((p) => p.participationId),
+      ["part-001", "part-ended"]
+    );
+    assert.ok(site.chain.nodes.some((n) => n.type === "Client" && n.id === "bpa"));
+  });
+
+  it("drops a participation from the chain once it has ended", async () => {
+    const { snapshots } = await mockSnapshots([...Object.values(MOCK_PARTICIPATIONS), ended]);
+    const site = snapshots.find((s) => s.entityType === "Site" && s.entityId === "portland-manufacturing")!;
+
+    const before = currentChain(site, "2025-06-01");
+    const afterwards = currentChain(site, "2025-07-01");
+
+    assert.deepStrictEqual(
+      before.nodes[0].parents.map((p) => p.id),
+      ["10", "part-001", "part-ended"]
+    );
+    assert.deepStrictEqual(
+      afterwards.nodes[0].parents.map((p) => p.id),
+      ["10", "part-001"]
+    );
+    // The program-layer nodes only the ended participation led to are gone too
+    assert.deepStrictEqual(
+      afterwards.nodes.map((n) => `${n.type}:${n.id}`),
+      [
+        "Site:portland-manufacturing",
+        "Region:10",
+        "Organization:1",
+        "Participation:part-001",
+        "Cohort:cohort-2024",
+        "Program:industrial-sem",
+        "Client:energy-trust",
+      ]
+    );
+  });
+
+  it("leaves a participation out of the chain until it has started", async () => {
+    const upcoming: Participation = {
+      ...ended,
+      participationId: "part-upcoming",
+      joinDate: "2025-03-01",
+      leaveDate: undefined,
+    };
+    const { snapshots } = await mockSnapshots([...Object.values(MOCK_PARTICIPATIONS), upcoming]);
+    const site = snapshots.find((s) => s.entityType === "Site" && s.entityId === "portland-manufacturing")!;
+
+    const beforeJoining = currentChain(site, "2025-02-28");
+    const onJoinDate = currentChain(site, "2025-03-01");
+
+    assert.deepStrictEqual(
+      beforeJoining.nodes[0].parents.map((p) => p.id),
+      ["10", "part-001"]
+    );
+    assert.ok(!beforeJoining.nodes.some((n) => n.id === "bpa-cohort-2024" || n.id === "bpa"));
+    assert.deepStrictEqual(
+      onJoinDate.nodes[0].parents.map((p) => p.id),
+      ["10", "part-001", "part-upcoming"]
+    );
+  });
+
+  it("returns only active participations from StoreHierarchyService", async () => {
+    const past: Participation = { ...ended, leaveDate: "2020-01-01" };
+    const future: Participation = {
+      ...ended,
+      participationId: "part-future",
+      joinDate: "2999-01-01",
+      leaveDate: undefined,
+    };
+    const { snapshots } = await mockSnapshots([...Object.values(MOCK_PARTICIPATIONS), past, future]);
+    const service = new StoreHierarchyService(new InMemoryHierarchyStore(snapshots), new MockHierarchyService());
+
+    const participations = await service.getSiteParticipations("portland-manufacturing");
+    const chain = await service.getSiteHierarchy("portland-manufacturing");
+
+    assert.deepStrictEqual(
+      participations.map((p) => p.participationId),
+      ["part-001"]
+    );
+    assert.ok(!chain.nodes.some((n) => ["part-ended", "part-future", "bpa"].includes(n.id)));
+  });
+});
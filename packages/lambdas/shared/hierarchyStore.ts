@@ -0,0 +1,489 @@
+/**
+ * Hierarchy Store - Denormalized snapshot of the org hierarchy in DynamoDB.
+ *
+ * Resolving a site through company-service and site-service costs two or three
+ * HTTP calls. The store instead keeps one record per Site, Region, Organization
+ * and Participation holding its full ancestor chain, so StoreHierarchyService
+ * (HIERARCHY_SERVICE=store) resolves a site with a single GetItem:
+ *
+ *   pk                          chain
+ *   Site#portland-manufacturing Site → Region:10 → Organization:1 (+ Participations → Cohort → ...)
+ *   Region#10                   Region → Organization:1
+ *   Organization#1              Organization
+ *   Participation#part-001      Participation → Cohort → Program → Client
+ *
+ * Snapshots are built by buildHierarchySnapshots() from Company / Site /
+ * Participation records (the hierarchy-loader Lambda loads mockData.ts) and
+ * kept current by hierarchy change events.
+ *
+ * Each record also carries its direct parent ("Region#10" for a site in
+ * Region 10), indexed as "byParent", so a change can rebuild everything below
+ * the entity that moved. The table also holds the hierarchy version counter
+ * that hierarchy caches watch (bumped after every change).
+ *
+ * The table is HIERARCHY_TABLE; without one the store is in-memory (and empty).
+ * Point the SDK at DynamoDB Local with AWS_ENDPOINT_URL_DYNAMODB=http://localhost:8000.
+ */
+
+import {
+  AttributeValue,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+} from "@aws-sdk/client-dynamodb";
+import {
+  CompanyEntityType,
+  HierarchyChain,
+  HierarchyNode,
+  IHierarchyService,
+} from "./hierarchyService";
+import { Company, Participation, Site } from "./mockData";
+import { ValidationIssue } from "./types";
+import { DynamoPolicyVersionStore, InMemoryPolicyVersionStore, IPolicyVersionStore } from "./policyVersion";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type HierarchySnapshotType = "Site" | CompanyEntityType | "Participation";
+
+export interface HierarchySnapshot {
+  entityType: HierarchySnapshotType;
+  entityId: string;
+  /** Ancestor chain, the entity itself first */
+  chain: HierarchyChain;
+  /** Source record (Sites) */
+  site?: Site;
+  /** Source record (Regions and Organizations) */
+  company?: Company;
+  /** Participations enrolling the site, past ones included (Sites) */
+  participations?: Participation[];
+}
+
+export interface HierarchySnapshotSource {
+  companies: Company[];
+  sites: Site[];
+  participations?: Participation[];
+}
+
+export interface HierarchySnapshotBuild {
+  snapshots: HierarchySnapshot[];
+  /** Records left out because they reference something that doesn't exist */
+  skipped: ValidationIssue[];
+}
+
+// =============================================================================
+// HIERARCHY STORE INTERFACE
+// =============================================================================
+
+export interface IHierarchyStore {
+  /**
+   * The snapshot of an entity, or null when it isn't in the store.
+   */
+  getSnapshot(entityType: HierarchySnapshotType, entityId: string): Promise<HierarchySnapshot | null>;
+
+  /**
+   * Write a snapshot (or replace an entity's current one).
+   */
+  putSnapshot(snapshot: HierarchySnapshot): Promise<void>;
+
+  /**
+   * Remove an entity from the store.
+   */
+  deleteSnapshot(entityType: HierarchySnapshotType, entityId: string): Promise<void>;
+
+  /**
+   * Snapshots whose direct (first) parent is the given entity, e.g. the
+   * Regions of an Organization and the Sites directly under it.
+   */
+  listChildren(entityType: HierarchySnapshotType, entityId: string): Promise<HierarchySnapshot[]>;
+}
+
+// Index on each record's direct parent (see PocStack's HierarchyTable)
+export const HIERARCHY_PARENT_INDEX = "byParent";
+
+function snapshotKey(entityType: string, entityId: string): string {
+  return `${entityType}#${entityId}`;
+}
+
+// The entity's own node lists its direct parent first (a Site's company before its Participations)
+function parentKey(snapshot: HierarchySnapshot): string | undefined {
+  const parent = snapshot.chain.nodes[0]?.parents[0];
+  return parent && parent.type !== "System" ? snapshotKey(parent.type, parent.id) : undefined;
+}
+
+// =============================================================================
+// DYNAMODB HIERARCHY STORE
+// =============================================================================
+
+/**
+ * Items are keyed by pk = "<entityType>#<entityId>", with `parent` (e.g.
+ * "Region#10") for the byParent index; the chain, source record and
+ * participations are stored as JSON strings.
+ */
+export class DynamoHierarchyStore implements IHierarchyStore {
+  constructor(
+    private tableName: string,
+    private client: DynamoDBClient = new DynamoDBClient({})
+  ) {}
+
+  async getSnapshot(entityType: HierarchySnapshotType, entityId: string): Promise<HierarchySnapshot | null> {
+    const result = await this.client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { pk: { S: snapshotKey(entityType, entityId) } },
+      })
+    );
+    return result.Item ? fromItem(result.Item) : null;
+  }
+
+  async putSnapshot(snapshot: HierarchySnapshot): Promise<void> {
+    const json = (name: string, value: unknown) =>
+      value === undefined ? {} : { [name]: { S: JSON.stringify(value) } };
+
+    await this.client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: {
+          pk: { S: snapshotKey(snapshot.entityType, snapshot.entityId) },
+          entityType: { S: snapshot.entityType },
+          entityId: { S: snapshot.entityId },
+          ...(parentKey(snapshot) ? { parent: { S: parentKey(snapshot)! } } : {}),
+          ...json("chain", snapshot.chain),
+          ...json("site", snapshot.site),
+          ...json("company", snapshot.company),
+          ...json("participations", snapshot.participations),
+          updatedAt: { S: new Date().toISOString() },
+        },
+      })
+    );
+  }
+
+  async deleteSnapshot(entityType: HierarchySnapshotType, entityId: string): Promise<void> {
+    await this.client.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: { pk: { S: snapshotKey(entityType, entityId) } },
+      })
+    );
+  }
+
+  async listChildren(entityType: HierarchySnapshotType, entityId: string): Promise<HierarchySnapshot[]> {
+    const children: HierarchySnapshot[] = [];
+    let startKey: Record<string, AttributeValue> | undefined;
+    do {
+      const result = await this.client.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: HIERARCHY_PARENT_INDEX,
+          KeyConditionExpression: "parent = :parent",
+          ExpressionAttributeValues: { ":parent": { S: snapshotKey(entityType, entityId) } },
+          ExclusiveStartKey: startKey,
+        })
+      );
+      children.push(...(result.Items || []).map(fromItem));
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+    return children;
+  }
+}
+
+function fromItem(item: Record<string, AttributeValue>): HierarchySnapshot {
+  const json = <T>(name: string): T | undefined => {
+    const value = item[name]?.S;
+    return value ? (JSON.parse(value) as T) : undefined;
+  };
+
+  return {
+    entityType: item.entityType.S as HierarchySnapshotType,
+    entityId: item.entityId.S!,
+    chain: json<HierarchyChain>("chain")!,
+    site: json<Site>("site"),
+    company: json<Company>("company"),
+    participations: json<Participation[]>("participations"),
+  };
+}
+
+// =============================================================================
+// IN-MEMORY HIERARCHY STORE (local runs)
+// =============================================================================
+
+export class InMemoryHierarchyStore implements IHierarchyStore {
+  private snapshots = new Map<string, HierarchySnapshot>();
+
+  constructor(snapshots: HierarchySnapshot[] = []) {
+    for (const snapshot of snapshots) {
+      this.snapshots.set(snapshotKey(snapshot.entityType, snapshot.entityId), snapshot);
+    }
+  }
+
+  async getSnapshot(entityType: HierarchySnapshotType, entityId: string): Promise<HierarchySnapshot | null> {
+    return this.snapshots.get(snapshotKey(entityType, entityId)) ?? null;
+  }
+
+  async putSnapshot(snapshot: HierarchySnapshot): Promise<void> {
+    this.snapshots.set(snapshotKey(snapshot.entityType, snapshot.entityId), snapshot);
+  }
+
+  async deleteSnapshot(entityType: HierarchySnapshotType, entityId: string): Promise<void> {
+    this.snapshots.delete(snapshotKey(entityType, entityId));
+  }
+
+  async listChildren(entityType: HierarchySnapshotType, entityId: string): Promise<HierarchySnapshot[]> {
+    const parent = snapshotKey(entityType, entityId);
+    return Array.from(this.snapshots.values()).filter((snapshot) => parentKey(snapshot) === parent);
+  }
+}
+
+// =============================================================================
+// SNAPSHOT BUILDING (loader)
+// =============================================================================
+
+/**
+ * Whether a participation enrolls its site today: it has started (no joinDate
+ * in the future) and not ended (no leaveDate today or earlier).
+ */
+export function isActiveParticipation(
+  participation: Participation,
+  today: string = new Date().toISOString().slice(0, 10)
+): boolean {
+  const started = !participation.joinDate || participation.joinDate <= today;
+  return started && (!participation.leaveDate || participation.leaveDate > today);
+}
+
+function companyNode(company: Company): HierarchyNode {
+  const isRegion = company.parentId !== null;
+  return {
+    type: isRegion ? "Region" : "Organization",
+    id: String(company.companyId),
+    name: company.name,
+    attributes: { name: company.name },
+    parents: isRegion
+      ? [{ type: "Organization", id: String(company.parentId) }]
+      : [{ type: "System", id: "gazebo" }],
+  };
+}
+
+function addNodes(nodes: HierarchyNode[], more: HierarchyNode[]): void {
+  for (const node of more) {
+    if (!nodes.some((n) => n.type === node.type && n.id === node.id)) nodes.push(node);
+  }
+}
+
+/**
+ * The Region or Organization a site's companyId ("region:10") points to.
+ */
+export function siteCompany(site: Site): { type: CompanyEntityType; id: string } {
+  const [prefix, id] = site.companyId.split(":");
+  return { type: prefix === "region" ? "Region" : "Organization", id };
+}
+
+/**
+ * Snapshot of a Region (on top of its Organization's chain) or an Organization.
+ *
+ * @param company - Company record
+ * @param orgChain - Chain of the Organization a Region belongs to
+ */
+export function companySnapshot(company: Company, orgChain?: HierarchyChain): HierarchySnapshot {
+  const node = companyNode(company);
+  const chain: HierarchyChain =
+    company.parentId === null || !orgChain
+      ? { nodes: [node], path: company.name }
+      : { nodes: [node, ...orgChain.nodes], path: `${orgChain.path} → ${company.name}` };
+  return { entityType: node.type as CompanyEntityType, entityId: node.id, chain, company };
+}
+
+/**
+ * Snapshot of a Participation, on top of its Cohort's chain.
+ */
+export function participationSnapshot(
+  participation: Participation,
+  cohortChain: HierarchyChain
+): HierarchySnapshot {
+  const id = participation.participationId;
+  return {
+    entityType: "Participation",
+    entityId: id,
+    chain: {
+      nodes: [
+        {
+          type: "Participation",
+          id,
+          name: id,
+          attributes: { joinDate: participation.joinDate, leaveDate: participation.leaveDate },
+          parents: [{ type: "Cohort", id: participation.cohortId }],
+        },
+        ...cohortChain.nodes,
+      ],
+      path: `${cohortChain.path} → ${id}`,
+    },
+  };
+}
+
+/**
+ * Snapshot of a Site: on top of its company's chain, and bridged to the
+ * program layer through all of its participations. Which of them are still
+ * active is decided when the snapshot is read (currentChain), so a
+ * participation that ends doesn't need the snapshot rewritten.
+ *
+ * @param site - Site record
+ * @param companyChain - Chain of the Region or Organization the site belongs to
+ * @param participations - Participations enrolling the site, with their chains
+ */
+export function siteSnapshot(
+  site: Site,
+  companyChain: HierarchyChain,
+  participations: Array<{ participation: Participation; chain: HierarchyChain }> = []
+): HierarchySnapshot {
+  const company = siteCompany(site);
+  const siteNode: HierarchyNode = {
+    type: "Site",
+    id: site.siteId,
+    name: site.name,
+    attributes: { name: site.name },
+    parents: [company],
+  };
+  const nodes = [siteNode, ...companyChain.nodes];
+
+  for (const { participation, chain } of participations) {
+    siteNode.parents.push({ type: "Participation", id: participation.participationId });
+    addNodes(nodes, chain.nodes);
+  }
+
+  return {
+    entityType: "Site",
+    entityId: site.siteId,
+    chain: { nodes, path: `${companyChain.path} → ${site.name}` },
+    site,
+    participations: participations.map((p) => p.participation),
+  };
+}
+
+/**
+ * A snapshot's chain as of `today`: a Site loses the Participations that have
+ * ended or not started yet, and the program-layer nodes only they led to.
+ */
+export function currentChain(
+  snapshot: HierarchySnapshot,
+  today: string = new Date().toISOString().slice(0, 10)
+): HierarchyChain {
+  const inactive = new Set(
+    (snapshot.participations || [])
+      .filter((p) => !isActiveParticipation(p, today))
+      .map((p) => p.participationId)
+  );
+  if (snapshot.entityType !== "Site" || inactive.size === 0) return snapshot.chain;
+
+  const [siteNode, ...rest] = snapshot.chain.nodes;
+  const site: HierarchyNode = {
+    ...siteNode,
+    parents: siteNode.parents.filter((p) => !(p.type === "Participation" && inactive.has(p.id))),
+  };
+
+  // Keep the nodes still reachable from the site, in their stored order
+  const key = (node: { type: string; id: string }) => `${node.type}:${node.id}`;
+  const byKey = new Map(rest.map((node) => [key(node), node]));
+  const reachable = new Set([key(site)]);
+  const queue = [site];
+  while (queue.length > 0) {
+    for (const parent of queue.shift()!.parents) {
+      const node = byKey.get(key(parent));
+      if (node && !reachable.has(key(node))) {
+        reachable.add(key(node));
+        queue.push(node);
+      }
+    }
+  }
+
+  return { nodes: [site, ...rest.filter((node) => reachable.has(key(node)))], path: snapshot.chain.path };
+}
+
+/**
+ * Build the snapshot of every Organization, Region, Site and Participation in
+ * `source`. Chains are computed from the records themselves; the Cohort →
+ * Program → Client part of participation chains comes from `programs`.
+ *
+ * A Region whose Organization is missing, a Site whose company is missing or a
+ * Participation whose Cohort can't be resolved is skipped (and everything
+ * below it), and reported in `skipped`.
+ *
+ * @param source - Company, Site and Participation records
+ * @param programs - Hierarchy service for program-layer chains
+ */
+export async function buildHierarchySnapshots(
+  source: HierarchySnapshotSource,
+  programs: IHierarchyService
+): Promise<HierarchySnapshotBuild> {
+  const snapshots: HierarchySnapshot[] = [];
+  const skipped: ValidationIssue[] = [];
+  const companyChains = new Map<string, HierarchyChain>();
+  const participationChains = new Map<string, HierarchyChain>();
+
+  // 1. Organizations, then Regions below them
+  const isRegion = (company: Company) => Number(company.parentId !== null);
+  const companies = [...source.companies].sort((a, b) => isRegion(a) - isRegion(b));
+  for (const company of companies) {
+    const id = String(company.companyId);
+    let orgChain: HierarchyChain | undefined;
+
+    if (company.parentId !== null) {
+      orgChain = companyChains.get(String(company.parentId));
+      if (!orgChain || orgChain.nodes[0].type !== "Organization") {
+        skipped.push({ field: `Region#${id}`, message: `Organization ${company.parentId} not found` });
+        continue;
+      }
+    }
+
+    const snapshot = companySnapshot(company, orgChain);
+    companyChains.set(id, snapshot.chain);
+    snapshots.push(snapshot);
+  }
+
+  // 2. Participations: the participation on top of its Cohort's chain
+  for (const participation of source.participations || []) {
+    const id = participation.participationId;
+    try {
+      const cohortChain = await programs.getProgramHierarchy("Cohort", participation.cohortId);
+      const snapshot = participationSnapshot(participation, cohortChain);
+      participationChains.set(id, snapshot.chain);
+      snapshots.push(snapshot);
+    } catch (error) {
+      skipped.push({
+        field: `Participation#${id}`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // 3. Sites: the site on top of its company's chain, bridged to its participations
+  for (const site of source.sites) {
+    const company = siteCompany(site);
+    const companyChain = companyChains.get(company.id);
+    if (!companyChain || companyChain.nodes[0].type !== company.type) {
+      skipped.push({ field: `Site#${site.siteId}`, message: `${company.type} ${company.id} not found` });
+      continue;
+    }
+
+    const participations = (source.participations || [])
+      .filter((p) => p.siteId === site.siteId && participationChains.has(p.participationId))
+      .map((p) => ({ participation: p, chain: participationChains.get(p.participationId)! }));
+    snapshots.push(siteSnapshot(site, companyChain, participations));
+  }
+
+  return { snapshots, skipped };
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const hierarchyStore: IHierarchyStore = process.env.HIERARCHY_TABLE
+  ? new DynamoHierarchyStore(process.env.HIERARCHY_TABLE)
+  : new InMemoryHierarchyStore();
+
+// Bumped after every hierarchy change so CachingHierarchyService drops what it has
+export const hierarchyVersionStore: IPolicyVersionStore = process.env.HIERARCHY_TABLE
+  ? new DynamoPolicyVersionStore(process.env.HIERARCHY_TABLE, undefined, "hierarchy-version")
+  : new InMemoryPolicyVersionStore();
@@ -0,0 +1,84 @@
+/**
+ * verifyJwt on tokens signed with a local key, and how PrincipalResolver
+ * reports the ones it rejects.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { generateKeyPairSync, sign } from "crypto";
+import { StaticKeySet, TokenVerificationError, verifyJwt } from "./jwt";
+import { PrincipalResolver } from "./principal";
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const keySet = new StaticKeySet({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "test" }] });
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** A correctly signed token with any header and payload, valid JSON or not */
+function signed(header: unknown, payload: unknown): string {
+  const input = `${encode(header)}.${encode(payload)}`;
+  return `${input}.${sign("sha256", Buffer.from(input), privateKey).toString("base64url")}`;
+}
+
+const header = { alg: "RS256", kid: "test" };
+const inFiveMinutes = () => Math.floor(Date.now() / 1000) + 300;
+
+async function rejects(token: string, message: string) {
+  await assert.rejects(verifyJwt(token, keySet), (error: Error) => {
+    assert.ok(error instanceof TokenVerificationError);
+    assert.strictEqual(error.message, message);
+    return true;
+  });
+}
+
+describe("verifyJwt", () => {
+  it("returns the claims of a valid token", async () => {
+    const claims = await verifyJwt(signed(header, { sub: "u1", exp: inFiveMinutes() }), keySet);
+
+    assert.strictEqual(claims.sub, "u1");
+  });
+
+  describe("expiry", () => {
+    it("rejects a token without exp", async () => {
+      await rejects(signed(header, { sub: "u1" }), "Token has no exp claim");
+    });
+
+    it("rejects a non-numeric exp", async () => {
+      await rejects(signed(header, { sub: "u1", exp: String(inFiveMinutes()) }), "Token has no exp claim");
+    });
+
+    it("rejects an expired token", async () => {
+      await rejects(signed(header, { sub: "u1", exp: Math.floor(Date.now() / 1000) - 120 }), "Token expired");
+    });
+  });
+
+  describe("segments that aren't JSON objects", () => {
+    it("rejects a null payload", async () => {
+      await rejects(signed(header, null), "Malformed token payload: expected a JSON object");
+    });
+
+    it("rejects an array payload", async () => {
+      await rejects(signed(header, [{ sub: "u1" }]), "Malformed token payload: expected a JSON object");
+    });
+
+    it("rejects a null header", async () => {
+      const token = signed(null, { sub: "u1", exp: inFiveMinutes() });
+
+      await rejects(token, "Malformed token header: expected a JSON object");
+    });
+  });
+
+  it("is a 401 from PrincipalResolver, not an unexpected error", async () => {
+    const resolver = new PrincipalResolver({
+      keySet,
+      verifyOptions: {},
+      userIdClaim: "email",
+      trustedServiceKeys: [],
+    });
+
+    await assert.rejects(resolver.resolve({ authorization: `Bearer ${signed(header, null)}` }), {
+      name: "PrincipalResolutionError",
+      statusCode: 401,
+    });
+  });
+});
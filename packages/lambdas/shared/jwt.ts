@@ -0,0 +1,247 @@
+/**
+ * JWT Verification - Verifies OIDC / Cognito-style bearer tokens against a JWKS.
+ *
+ * Supports the asymmetric algorithms identity providers sign with
+ * (RS256/384/512, ES256/384/512) using node:crypto, so no extra dependency.
+ *
+ * Key sources:
+ *   - RemoteKeySet: fetches the provider's JWKS URL, cached, refetched on an unknown kid
+ *   - StaticKeySet: a JWKS document supplied directly (local key sets for testing)
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject, verify } from "crypto";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  /** Required `iss` value (skipped if unset) */
+  issuer?: string;
+  /** Accepted `aud` values - Cognito access tokens use `client_id` instead (skipped if unset) */
+  audience?: string[];
+  /** Allowed clock skew for exp/nbf */
+  clockToleranceSec?: number;
+}
+
+interface Jwks {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
+export interface SigningKey {
+  key: KeyObject;
+  /** The JWK's `alg`, when the key set pins one */
+  alg?: string;
+}
+
+/**
+ * Raised when a token is malformed, expired, or fails signature/claim checks.
+ */
+export class TokenVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenVerificationError";
+  }
+}
+
+// Key type, hash and signature encoding per JWS algorithm
+const ALGORITHMS: Record<string, { keyType: "rsa" | "ec"; hash: string; dsaEncoding?: "ieee-p1363" }> = {
+  RS256: { keyType: "rsa", hash: "sha256" },
+  RS384: { keyType: "rsa", hash: "sha384" },
+  RS512: { keyType: "rsa", hash: "sha512" },
+  ES256: { keyType: "ec", hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { keyType: "ec", hash: "sha384", dsaEncoding: "ieee-p1363" },
+  ES512: { keyType: "ec", hash: "sha512", dsaEncoding: "ieee-p1363" },
+};
+
+// =============================================================================
+// KEY SET INTERFACE
+// =============================================================================
+
+export interface IKeySet {
+  /**
+   * Get the public key for a token's `kid`. Throws TokenVerificationError if unknown.
+   */
+  getKey(kid: string | undefined): Promise<SigningKey>;
+}
+
+function findKey(jwks: Jwks, kid: string | undefined): SigningKey | null {
+  const candidates = jwks.keys.filter((k) => k.use !== "enc");
+  const jwk = kid ? candidates.find((k) => k.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+  if (!jwk) return null;
+
+  try {
+    return { key: createPublicKey({ key: jwk, format: "jwk" }), alg: jwk.alg };
+  } catch (error) {
+    throw new TokenVerificationError(`Invalid signing key ${kid ?? "(no kid)"}: ${(error as Error).message}`);
+  }
+}
+
+// =============================================================================
+// STATIC KEY SET (local / test key sets)
+// =============================================================================
+
+export class StaticKeySet implements IKeySet {
+  constructor(private jwks: Jwks) {}
+
+  async getKey(kid: string | undefined): Promise<SigningKey> {
+    const key = findKey(this.jwks, kid);
+    if (!key) {
+      throw new TokenVerificationError(`Unknown signing key: ${kid ?? "(no kid)"}`);
+    }
+    return key;
+  }
+}
+
+// =============================================================================
+// REMOTE KEY SET (JWKS URL)
+// =============================================================================
+
+export class RemoteKeySet implements IKeySet {
+  private jwks: Jwks | null = null;
+  private fetchedAt = 0;
+
+  constructor(
+    private url: string,
+    private cacheMs: number = 10 * 60 * 1000,
+    // Refetch at most this often when a token names a kid we don't have (key rotation)
+    private minRefreshMs: number = 60 * 1000
+  ) {}
+
+  async getKey(kid: string | undefined): Promise<SigningKey> {
+    const now = Date.now();
+    if (!this.jwks || now - this.fetchedAt > this.cacheMs) {
+      await this.refresh(now);
+    }
+
+    let key = findKey(this.jwks!, kid);
+    if (!key && now - this.fetchedAt > this.minRefreshMs) {
+      await this.refresh(now);
+      key = findKey(this.jwks!, kid);
+    }
+    if (!key) {
+      throw new TokenVerificationError(`Unknown signing key: ${kid ?? "(no kid)"}`);
+    }
+    return key;
+  }
+
+  private async refresh(now: number): Promise<void> {
+    const response = await fetch(this.url, { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) {
+      throw new Error(`JWKS fetch failed: HTTP ${response.status} from ${this.url}`);
+    }
+    this.jwks = (await response.json()) as Jwks;
+    this.fetchedAt = now;
+  }
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+function decodeSegment<T>(segment: string, name: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, "base64url").toString("utf-8"));
+  } catch {
+    throw new TokenVerificationError(`Malformed token ${name}`);
+  }
+  // null, arrays and primitives parse fine but have no header fields / claims
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new TokenVerificationError(`Malformed token ${name}: expected a JSON object`);
+  }
+  return value as T;
+}
+
+/**
+ * Verify a compact JWS and return its claims.
+ *
+ * @param token - The bearer token (without "Bearer ")
+ * @param keySet - Where to find the signing key
+ * @param options - Issuer / audience / clock tolerance checks
+ */
+export async function verifyJwt(
+  token: string,
+  keySet: IKeySet,
+  options: JwtVerifyOptions = {}
+): Promise<JwtClaims> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new TokenVerificationError("Malformed token: expected three segments");
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+  const header = decodeSegment<JwtHeader>(headerSegment, "header");
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new TokenVerificationError(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const { key, alg } = await keySet.getKey(header.kid);
+  // A key pinned to one algorithm must not verify tokens claiming another
+  if (alg && alg !== header.alg) {
+    throw new TokenVerificationError(`Token algorithm ${header.alg} does not match key algorithm ${alg}`);
+  }
+  if (key.asymmetricKeyType !== algorithm.keyType) {
+    throw new TokenVerificationError(`Token algorithm ${header.alg} does not match ${key.asymmetricKeyType} key`);
+  }
+
+  let valid: boolean;
+  try {
+    valid = verify(
+      algorithm.hash,
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+      Buffer.from(signatureSegment, "base64url")
+    );
+  } catch (error) {
+    // e.g. an EC key for an RS256 token
+    throw new TokenVerificationError(`Token signature could not be verified: ${(error as Error).message}`);
+  }
+  if (!valid) {
+    throw new TokenVerificationError("Invalid token signature");
+  }
+
+  const claims = decodeSegment<JwtClaims>(payloadSegment, "payload");
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 60;
+
+  // A token without an expiry would be valid forever
+  if (typeof claims.exp !== "number" || !Number.isFinite(claims.exp)) {
+    throw new TokenVerificationError("Token has no exp claim");
+  }
+  if (now - tolerance >= claims.exp) {
+    throw new TokenVerificationError("Token expired");
+  }
+  if (typeof claims.nbf === "number" && now + tolerance < claims.nbf) {
+    throw new TokenVerificationError("Token not yet valid");
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new TokenVerificationError(`Unexpected token issuer: ${claims.iss}`);
+  }
+  if (options.audience && options.audience.length > 0) {
+    const audiences = ([] as unknown[]).concat(claims.aud ?? [], claims.client_id ?? []);
+    if (!audiences.some((aud) => options.audience!.includes(String(aud)))) {
+      throw new TokenVerificationError("Token audience not accepted");
+    }
+  }
+
+  return claims;
+}
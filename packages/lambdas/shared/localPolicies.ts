@@ -0,0 +1,98 @@
+/**
+ * Local Policy Store - Loads the Cedar policy store definition from disk.
+ *
+ * The /authorization directory is the source of truth for what PocStack deploys
+ * to AVP:
+ *   - schema.json         → Policy store schema
+ *   - policies/*.cedar    → Static policies
+ *   - templates/*.cedar   → Policy templates (one per permission level)
+ *   - assignments.json    → Template-linked policies (user → resource)
+ *
+ * Loading the same files lets us evaluate requests in-process with the Cedar
+ * engine, without a network round-trip to AVP.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EntityRef {
+  entityType: string;
+  entityId: string;
+}
+
+export interface PolicyAssignment {
+  id: string;
+  description: string;
+  template: string;
+  principal: EntityRef;
+  resource: EntityRef;
+}
+
+export interface LocalPolicyStore {
+  /** Cedar JSON schema (authorization/schema.json) */
+  schema: Record<string, unknown>;
+  /** Static policies keyed by file name (e.g. "creator-privilege") */
+  staticPolicies: Record<string, string>;
+  /** Policy templates keyed by permission level (e.g. "coordinator") */
+  templates: Record<string, string>;
+  /** Template-linked assignments (authorization/assignments.json) */
+  assignments: PolicyAssignment[];
+}
+
+// =============================================================================
+// LOADER
+// =============================================================================
+
+/**
+ * Default location of the /authorization directory.
+ * Resolves to the repo root when running from source; the Lambda bundle copies
+ * the directory next to the handler and sets AUTHORIZATION_DIR instead.
+ */
+export const DEFAULT_AUTHORIZATION_DIR =
+  process.env.AUTHORIZATION_DIR || path.resolve(__dirname, "../../../authorization");
+
+/**
+ * Read every .cedar file in a directory, keyed by file name without extension.
+ */
+function loadCedarFiles(dir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  if (!fs.existsSync(dir)) {
+    return files;
+  }
+
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".cedar")).sort()) {
+    files[file.replace(/\.cedar$/, "")] = fs.readFileSync(path.join(dir, file), "utf-8");
+  }
+  return files;
+}
+
+/**
+ * Load the schema, static policies, templates and assignments from disk.
+ *
+ * @param authorizationDir - Path to the /authorization directory
+ */
+export function loadLocalPolicyStore(
+  authorizationDir: string = DEFAULT_AUTHORIZATION_DIR
+): LocalPolicyStore {
+  const schema = JSON.parse(fs.readFileSync(path.join(authorizationDir, "schema.json"), "utf-8"));
+  const staticPolicies = loadCedarFiles(path.join(authorizationDir, "policies"));
+  const templates = loadCedarFiles(path.join(authorizationDir, "templates"));
+
+  const assignmentsPath = path.join(authorizationDir, "assignments.json");
+  const assignments: PolicyAssignment[] = fs.existsSync(assignmentsPath)
+    ? JSON.parse(fs.readFileSync(assignmentsPath, "utf-8")).assignments || []
+    : [];
+
+  // Same check PocStack performs at synth time
+  for (const assignment of assignments) {
+    if (!templates[assignment.template]) {
+      throw new Error(`Unknown template "${assignment.template}" in assignment "${assignment.id}"`);
+    }
+  }
+
+  return { schema, staticPolicies, templates, assignments };
+}
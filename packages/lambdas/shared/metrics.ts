@@ -0,0 +1,205 @@
+/**
+ * Metrics - CloudWatch Embedded Metric Format (EMF) emitter.
+ *
+ * Metrics are buffered during an invocation and written to stdout as EMF
+ * documents by flush(); CloudWatch Logs extracts them into namespace
+ * METRICS_NAMESPACE (default "GazeboPoc"). Every metric carries a Service
+ * dimension (METRICS_SERVICE, set per function in PocStack).
+ *
+ * Emitted:
+ *   Requests, Errors, RequestLatency      [Service]                       per invocation
+ *   BuildEntitiesDuration                 [Service]                       per buildEntities call
+ *   HierarchyLookupDuration               [Service]                       per hierarchy lookup
+ *   HierarchyLookupFailures               [Service]
+ *   ResourceLookupDuration                [Service]                       per resource registry lookup
+ *   AvpLatency                            [Service, Operation]            per AVP API call
+ *   Allowed, Denied, EvaluationErrors     [Service, Action, ResourceType] per decision
+ *   BatchSize                             [Service, Route]                per batch / filter request
+ */
+
+import type {
+  AuthorizationEngineType,
+  AuthorizationEntities,
+  AuthorizationQuery,
+  AuthorizationResult,
+  IAuthorizationEngine,
+} from "./authorizationEngine";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MetricUnit = "Count" | "Milliseconds";
+
+export type MetricDimensions = Record<string, string>;
+
+interface MetricGroup {
+  dimensions: MetricDimensions;
+  metrics: Map<string, { unit: MetricUnit; values: number[] }>;
+}
+
+// EMF allows at most 100 values per metric in one document
+const MAX_VALUES_PER_DOCUMENT = 100;
+
+// =============================================================================
+// METRICS LOGGER
+// =============================================================================
+
+export class MetricsLogger {
+  private groups = new Map<string, MetricGroup>();
+
+  constructor(
+    private namespace: string = process.env.METRICS_NAMESPACE || "GazeboPoc",
+    private service: string = process.env.METRICS_SERVICE || "gazebo",
+    private emit: (line: string) => void = (line) => console.log(line)
+  ) {}
+
+  /**
+   * Record one value. Values with the same name and dimensions are combined
+   * into one document on flush.
+   */
+  put(
+    name: string,
+    value: number,
+    unit: MetricUnit = "Count",
+    dimensions: MetricDimensions = {}
+  ): void {
+    const all: MetricDimensions = { Service: this.service, ...dimensions };
+    const key = Object.keys(all)
+      .sort()
+      .map((k) => `${k}=${all[k]}`)
+      .join("|");
+
+    let group = this.groups.get(key);
+    if (!group) {
+      group = { dimensions: all, metrics: new Map() };
+      this.groups.set(key, group);
+    }
+
+    let metric = group.metrics.get(name);
+    if (!metric) {
+      metric = { unit, values: [] };
+      group.metrics.set(name, metric);
+    }
+    metric.values.push(value);
+  }
+
+  /**
+   * Run `fn` and record how long it took (also when it throws).
+   */
+  async time<T>(name: string, fn: () => Promise<T>, dimensions: MetricDimensions = {}): Promise<T> {
+    const started = Date.now();
+    try {
+      return await fn();
+    } finally {
+      this.put(name, Date.now() - started, "Milliseconds", dimensions);
+    }
+  }
+
+  /**
+   * Run one handler invocation: records Requests, RequestLatency and Errors
+   * (1 or 0, so its Average is the error rate), then flushes.
+   *
+   * @param fn - The handler body
+   * @param failed - Whether a returned result counts as an error (e.g. a 5xx)
+   */
+  async invocation<T>(fn: () => Promise<T>, failed: (result: T) => boolean): Promise<T> {
+    let error = true;
+    try {
+      const result = await this.time("RequestLatency", fn);
+      error = failed(result);
+      return result;
+    } finally {
+      this.put("Requests", 1);
+      this.put("Errors", error ? 1 : 0);
+      this.flush();
+    }
+  }
+
+  /**
+   * Write everything buffered as EMF documents and clear the buffer.
+   */
+  flush(): void {
+    const timestamp = Date.now();
+
+    for (const group of this.groups.values()) {
+      const entries = Array.from(group.metrics.entries());
+      const longest = Math.max(...entries.map(([, m]) => m.values.length));
+
+      for (let offset = 0; offset < longest; offset += MAX_VALUES_PER_DOCUMENT) {
+        const included = entries.filter(([, m]) => m.values.length > offset);
+        const document: Record<string, unknown> = {
+          _aws: {
+            Timestamp: timestamp,
+            CloudWatchMetrics: [
+              {
+                Namespace: this.namespace,
+                Dimensions: [Object.keys(group.dimensions)],
+                Metrics: included.map(([name, m]) => ({ Name: name, Unit: m.unit })),
+              },
+            ],
+          },
+          ...group.dimensions,
+        };
+        for (const [name, m] of included) {
+          document[name] = m.values.slice(offset, offset + MAX_VALUES_PER_DOCUMENT);
+        }
+        this.emit(JSON.stringify(document));
+      }
+    }
+
+    this.groups.clear();
+  }
+}
+
+// Shared by everything in one function; the handler flushes once per invocation
+export const metrics = new MetricsLogger();
+
+// =============================================================================
+// DECISION METRICS ENGINE (decorator)
+// =============================================================================
+
+function resourceTypeOf(query: AuthorizationQuery): string {
+  return query.resource.entityType.replace(/^Gazebo::/, "");
+}
+
+/**
+ * Wraps any engine and counts its decisions by action and resource type.
+ * Wrap outside the decision cache so cached decisions are counted too.
+ */
+export class MetricsAuthorizationEngine implements IAuthorizationEngine {
+  readonly type: AuthorizationEngineType;
+
+  constructor(
+    private engine: IAuthorizationEngine,
+    private logger: MetricsLogger = metrics
+  ) {
+    this.type = engine.type;
+  }
+
+  async isAuthorized(
+    query: AuthorizationQuery,
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult> {
+    const result = await this.engine.isAuthorized(query, entities);
+    this.count(query, result);
+    return result;
+  }
+
+  async batchIsAuthorized(
+    queries: AuthorizationQuery[],
+    entities: AuthorizationEntities
+  ): Promise<AuthorizationResult[]> {
+    const results = await this.engine.batchIsAuthorized(queries, entities);
+    queries.forEach((query, i) => this.count(query, results[i]));
+    return results;
+  }
+
+  private count(query: AuthorizationQuery, result: AuthorizationResult): void {
+    const dimensions = { Action: query.action.actionId, ResourceType: resourceTypeOf(query) };
+    this.logger.put(result.allowed ? "Allowed" : "Denied", 1, "Count", dimensions);
+    if (result.errors.length > 0) {
+      this.logger.put("EvaluationErrors", 1, "Count", dimensions);
+    }
+  }
+}
@@ -10,8 +10,12 @@
  *   - Organization: company record where parentId = null
  *   - Region: company record where parentId = <org_id>
  *   - Site: site record where companyId = "organization:X" or "region:Y"
+ *   - Client → Program → Cohort → Participation / Cycle (program layer)
  */
 
+import { ResourceParents, ResourceType } from "./types";
+import { EntityAttributes } from "./entityAttributes";
+
 // =============================================================================
 // COMPANY DATA (from company-service / DynamoDB)
 // =============================================================================
@@ -120,6 +124,168 @@ export const MOCK_SITES: Record<string, Site> = {
   },
 };
 
+// =============================================================================
+// PROGRAM DATA (from program-service)
+// =============================================================================
+//
+// Program layer: Client → Program → Cohort → Participation / Cycle
+// A Participation enrolls one Site in a Cohort.
+
+export interface Client {
+  clientId: string;
+  name: string;
+}
+
+export interface Program {
+  programId: string;
+  name: string;
+  clientId: string;
+  implementerId?: string;
+}
+
+export interface Cohort {
+  cohortId: string;
+  name: string;
+  programId: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Cycle {
+  cycleId: string;
+  name: string;
+  cohortId: string;
+  type?: string;
+}
+
+export interface Participation {
+  participationId: string;
+  cohortId: string;
+  siteId: string;
+  joinDate?: string;
+  leaveDate?: string;
+}
+
+export const MOCK_CLIENTS: Record<string, Client> = {
+  "energy-trust": { clientId: "energy-trust", name: "Energy Trust of Oregon" },
+  "bpa": { clientId: "bpa", name: "Bonneville Power Administration" },
+};
+
+export const MOCK_PROGRAMS: Record<string, Program> = {
+  "industrial-sem": {
+    programId: "industrial-sem",
+    name: "Industrial SEM",
+    clientId: "energy-trust",
+    implementerId: "stillwater-energy",
+  },
+  "commercial-sem": {
+    programId: "commercial-sem",
+    name: "Commercial SEM",
+    clientId: "energy-trust",
+  },
+  "bpa-sem": {
+    programId: "bpa-sem",
+    name: "BPA Strategic Energy Management",
+    clientId: "bpa",
+  },
+};
+
+export const MOCK_COHORTS: Record<string, Cohort> = {
+  "cohort-2024": {
+    cohortId: "cohort-2024",
+    name: "Industrial SEM 2024",
+    programId: "industrial-sem",
+    startDate: "2024-01-01",
+    endDate: "2024-12-31",
+  },
+  "cohort-2025": {
+    cohortId: "cohort-2025",
+    name: "Industrial SEM 2025",
+    programId: "industrial-sem",
+    startDate: "2025-01-01",
+    endDate: "2025-12-31",
+  },
+  "bpa-cohort-2024": {
+    cohortId: "bpa-cohort-2024",
+    name: "BPA SEM 2024",
+    programId: "bpa-sem",
+    startDate: "2024-01-01",
+    endDate: "2024-12-31",
+  },
+};
+
+export const MOCK_CYCLES: Record<string, Cycle> = {
+  "fy2024-q1": { cycleId: "fy2024-q1", name: "FY2024 Q1", cohortId: "cohort-2024", type: "quarter" },
+  "fy2024-q2": { cycleId: "fy2024-q2", name: "FY2024 Q2", cohortId: "cohort-2024", type: "quarter" },
+};
+
+export const MOCK_PARTICIPATIONS: Record<string, Participation> = {
+  "part-001": {
+    participationId: "part-001",
+    cohortId: "cohort-2024",
+    siteId: "portland-manufacturing",  // Cascade Energy site enrolled in Industrial SEM
+    joinDate: "2024-01-15",
+  },
+  "part-002": {
+    participationId: "part-002",
+    cohortId: "cohort-2024",
+    siteId: "seattle-hq",
+    joinDate: "2024-02-01",
+  },
+  "part-003": {
+    participationId: "part-003",
+    cohortId: "bpa-cohort-2024",
+    siteId: "goodwill-happy-valley",  // Goodwill site enrolled in BPA's program
+    joinDate: "2024-03-01",
+  },
+};
+
+// =============================================================================
+// RESOURCE DATA (from the resource registry)
+// =============================================================================
+//
+// Leaf resources (Project, Model, Claim, ...) and the parents / creator the
+// owning services registered for them.
+
+export interface RegisteredResource {
+  resourceType: ResourceType;
+  resourceId: string;
+  parents: ResourceParents;
+  createdBy?: string;
+  /** Attribute values declared for the type in schema.json (name, ...) */
+  attributes?: EntityAttributes;
+}
+
+export const MOCK_RESOURCES: RegisteredResource[] = [
+  {
+    resourceType: "Project",
+    resourceId: "proj-1",
+    parents: { site: "portland-manufacturing" },
+    createdBy: "user-1",
+    attributes: { name: "Compressed Air Upgrade" },
+  },
+  {
+    resourceType: "Project",
+    resourceId: "proj-2",
+    parents: { site: "portland-manufacturing" },
+    createdBy: "user-2",
+    attributes: { name: "Lighting Retrofit" },
+  },
+  {
+    resourceType: "Model",
+    resourceId: "model-001",
+    parents: { site: "seattle-hq" },
+    createdBy: "user-1",
+    attributes: { name: "HVAC Baseline" },
+  },
+  {
+    resourceType: "Claim",
+    resourceId: "claim-001",
+    parents: { site: "portland-manufacturing", participation: "part-001" },
+    attributes: { name: "FY2024 Q1 Savings", participationId: "part-001", cycleId: "fy2024-q1" },
+  },
+];
+
 // =============================================================================
 // HELPER: Get display name for entity
 // =============================================================================
@@ -131,6 +297,10 @@ export function getEntityDisplayName(type: string, id: string): string {
   if (type === "Organization" || type === "Region") {
     return MOCK_COMPANIES[id]?.name || id;
   }
+  if (type === "Client") return MOCK_CLIENTS[id]?.name || id;
+  if (type === "Program") return MOCK_PROGRAMS[id]?.name || id;
+  if (type === "Cohort") return MOCK_COHORTS[id]?.name || id;
+  if (type === "Cycle") return MOCK_CYCLES[id]?.name || id;
   return id;
 }
 
@@ -0,0 +1,364 @@
+/**
+ * Policy Catalog - Looks up policy text and role assignments.
+ *
+ * Authorization decisions only return policy IDs. The catalog turns those IDs
+ * back into something a person can read: the Cedar statement, and for
+ * template-linked policies the permission level, principal and bound resource.
+ *
+ * Two implementations, matching the authorization engines:
+ *   - AvpPolicyCatalog:   GetPolicy / GetPolicyTemplate / ListPolicies on AVP
+ *   - LocalPolicyCatalog: the /authorization directory on disk
+ */
+
+import {
+  VerifiedPermissionsClient,
+  GetPolicyCommand,
+  GetPolicyTemplateCommand,
+  ListPoliciesCommand,
+  PolicyFilter,
+  ResourceNotFoundException,
+} from "@aws-sdk/client-verifiedpermissions";
+import { Action, PermissionLevel, PERMISSION_LEVELS } from "./types";
+import { EntityRef, LocalPolicyStore, loadLocalPolicyStore } from "./localPolicies";
+import { AuthorizationEngineType } from "./authorizationEngine";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PolicyDescription {
+  policyId: string;
+  policyType: "static" | "template-linked";
+  /** Cedar statement (template-linked: template with slots filled in) */
+  statement: string;
+  description?: string;
+  /** Template-linked only */
+  templateName?: PermissionLevel | string;
+  principal?: EntityRef;
+  resource?: EntityRef;
+}
+
+// Template IDs for permission levels (same environment as permissions-api)
+export const TEMPLATE_IDS: Record<PermissionLevel, string | undefined> = {
+  viewer: process.env.TEMPLATE_VIEWER,
+  contributor: process.env.TEMPLATE_CONTRIBUTOR,
+  champion: process.env.TEMPLATE_CHAMPION,
+  facilitator: process.env.TEMPLATE_FACILITATOR,
+  coordinator: process.env.TEMPLATE_COORDINATOR,
+  administrator: process.env.TEMPLATE_ADMINISTRATOR,
+};
+
+export const ALL_ACTIONS: Action[] = ["View", "Edit", "Create", "Delete", "Admin"];
+
+// =============================================================================
+// POLICY CATALOG INTERFACE
+// =============================================================================
+
+export interface IPolicyCatalog {
+  /**
+   * Get the statement and binding for a policy. Returns null if it doesn't exist.
+   */
+  describePolicy(policyId: string): Promise<PolicyDescription | null>;
+
+  /**
+   * List the template-linked assignments held by a user.
+   */
+  listUserAssignments(userId: string): Promise<PolicyDescription[]>;
+
+  /**
+   * List the template-linked assignments bound to one resource (not its descendants).
+   */
+  listResourceAssignments(resource: EntityRef): Promise<PolicyDescription[]>;
+
+  /**
+   * List every static policy with its statement.
+   */
+  listStaticPolicies(): Promise<PolicyDescription[]>;
+
+  /**
+   * Actions granted by a permission level's template.
+   */
+  getTemplateActions(level: PermissionLevel): Promise<Action[]>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatEntity(ref: EntityRef): string {
+  return `${ref.entityType}::"${ref.entityId}"`;
+}
+
+/**
+ * Fill ?principal and ?resource slots so the statement reads like a static policy.
+ * Comment lines are dropped (same as the statements PocStack deploys).
+ */
+export function linkTemplate(template: string, principal?: EntityRef, resource?: EntityRef): string {
+  let statement = template
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("//"))
+    .join("\n")
+    .trim();
+  if (principal) statement = statement.split("?principal").join(formatEntity(principal));
+  if (resource) statement = statement.split("?resource").join(formatEntity(resource));
+  return statement;
+}
+
+/**
+ * Read the action scope of a template:
+ *   action                              → all actions
+ *   action == Gazebo::Action::"View"    → [View]
+ *   action in [Gazebo::Action::"View", Gazebo::Action::"Edit"] → [View, Edit]
+ */
+export function parseTemplateActions(statement: string): Action[] {
+  const code = statement
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("//"))
+    .join("\n");
+
+  const scope =
+    code.match(/\baction\s+in\s*\[([^\]]*)\]/) || code.match(/\baction\s*(?:==|in)\s*([^,\n]+)/);
+  if (!scope) {
+    return [...ALL_ACTIONS];
+  }
+
+  const actions = Array.from(scope[1].matchAll(/Action::"(\w+)"/g)).map((m) => m[1] as Action);
+  return ALL_ACTIONS.filter((a) => actions.includes(a));
+}
+
+// =============================================================================
+// AVP POLICY CATALOG
+// =============================================================================
+
+export class AvpPolicyCatalog implements IPolicyCatalog {
+  private templateStatements = new Map<string, string>();
+
+  constructor(
+    private policyStoreId: string,
+    private client: VerifiedPermissionsClient = new VerifiedPermissionsClient({})
+  ) {}
+
+  async describePolicy(policyId: string): Promise<PolicyDescription | null> {
+    let detail;
+    try {
+      detail = await this.client.send(
+        new GetPolicyCommand({ policyStoreId: this.policyStoreId, policyId })
+      );
+    } catch (error) {
+      if (error instanceof ResourceNotFoundException) return null;
+      throw error;
+    }
+
+    if (detail.definition?.static) {
+      return {
+        policyId,
+        policyType: "static",
+        statement: detail.definition.static.statement || "",
+        description: detail.definition.static.description,
+      };
+    }
+
+    const linked = detail.definition?.templateLinked;
+    if (!linked) return null;
+
+    return this.describeLinked(
+      policyId,
+      linked.policyTemplateId!,
+      linked.principal as EntityRef | undefined,
+      linked.resource as EntityRef | undefined
+    );
+  }
+
+  async listUserAssignments(userId: string): Promise<PolicyDescription[]> {
+    return this.listLinked({
+      principal: { identifier: { entityType: "Gazebo::User", entityId: userId } },
+    });
+  }
+
+  async listResourceAssignments(resource: EntityRef): Promise<PolicyDescription[]> {
+    return this.listLinked({ resource: { identifier: resource } });
+  }
+
+  async listStaticPolicies(): Promise<PolicyDescription[]> {
+    // ListPolicies only returns descriptions for static policies, so fetch each statement
+    const policyIds: string[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.client.send(
+        new ListPoliciesCommand({
+          policyStoreId: this.policyStoreId,
+          nextToken,
+          filter: { policyType: "STATIC" },
+        })
+      );
+      policyIds.push(...(page.policies || []).map((p) => p.policyId!));
+      nextToken = page.nextToken;
+    } while (nextToken);
+
+    const described = await Promise.all(policyIds.map((id) => this.describePolicy(id)));
+    return described.filter((d): d is PolicyDescription => d !== null);
+  }
+
+  async getTemplateActions(level: PermissionLevel): Promise<Action[]> {
+    const templateId = TEMPLATE_IDS[level];
+    if (!templateId) return [];
+    return parseTemplateActions(await this.getTemplateStatement(templateId));
+  }
+
+  private async listLinked(
+    filter: Pick<PolicyFilter, "principal" | "resource">
+  ): Promise<PolicyDescription[]> {
+    const assignments: PolicyDescription[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.client.send(
+        new ListPoliciesCommand({
+          policyStoreId: this.policyStoreId,
+          nextToken,
+          filter: { ...filter, policyType: "TEMPLATE_LINKED" },
+        })
+      );
+
+      for (const policy of page.policies || []) {
+        const linked = policy.definition?.templateLinked;
+        if (!linked) continue;
+        assignments.push(
+          await this.describeLinked(
+            policy.policyId!,
+            linked.policyTemplateId!,
+            linked.principal as EntityRef | undefined,
+            linked.resource as EntityRef | undefined
+          )
+        );
+      }
+      nextToken = page.nextToken;
+    } while (nextToken);
+
+    return assignments;
+  }
+
+  private async describeLinked(
+    policyId: string,
+    templateId: string,
+    principal?: EntityRef,
+    resource?: EntityRef
+  ): Promise<PolicyDescription> {
+    const template = await this.getTemplateStatement(templateId);
+    const level = PERMISSION_LEVELS.find((l) => TEMPLATE_IDS[l] === templateId);
+
+    return {
+      policyId,
+      policyType: "template-linked",
+      statement: linkTemplate(template, principal, resource),
+      templateName: level || templateId,
+      principal,
+      resource,
+    };
+  }
+
+  private async getTemplateStatement(templateId: string): Promise<string> {
+    let statement = this.templateStatements.get(templateId);
+    if (statement === undefined) {
+      const template = await this.client.send(
+        new GetPolicyTemplateCommand({
+          policyStoreId: this.policyStoreId,
+          policyTemplateId: templateId,
+        })
+      );
+      statement = template.statement || "";
+      this.templateStatements.set(templateId, statement);
+    }
+    return statement;
+  }
+}
+
+// =============================================================================
+// LOCAL POLICY CATALOG
+// =============================================================================
+
+export class LocalPolicyCatalog implements IPolicyCatalog {
+  private store: LocalPolicyStore | null = null;
+
+  constructor(private loadStore: () => LocalPolicyStore = () => loadLocalPolicyStore()) {}
+
+  async describePolicy(policyId: string): Promise<PolicyDescription | null> {
+    const store = this.getStore();
+
+    if (store.staticPolicies[policyId] !== undefined) {
+      return {
+        policyId,
+        policyType: "static",
+        statement: store.staticPolicies[policyId],
+        description: `${policyId}.cedar`,
+      };
+    }
+
+    const assignment = store.assignments.find((a) => a.id === policyId);
+    if (!assignment) return null;
+
+    return {
+      policyId,
+      policyType: "template-linked",
+      statement: linkTemplate(
+        store.templates[assignment.template],
+        assignment.principal,
+        assignment.resource
+      ),
+      description: assignment.description,
+      templateName: assignment.template,
+      principal: assignment.principal,
+      resource: assignment.resource,
+    };
+  }
+
+  async listUserAssignments(userId: string): Promise<PolicyDescription[]> {
+    const assignments = this.getStore().assignments.filter(
+      (a) => a.principal.entityType === "Gazebo::User" && a.principal.entityId === userId
+    );
+    return this.describeAll(assignments.map((a) => a.id));
+  }
+
+  async listResourceAssignments(resource: EntityRef): Promise<PolicyDescription[]> {
+    const assignments = this.getStore().assignments.filter(
+      (a) => a.resource.entityType === resource.entityType && a.resource.entityId === resource.entityId
+    );
+    return this.describeAll(assignments.map((a) => a.id));
+  }
+
+  async listStaticPolicies(): Promise<PolicyDescription[]> {
+    return this.describeAll(Object.keys(this.getStore().staticPolicies));
+  }
+
+  async getTemplateActions(level: PermissionLevel): Promise<Action[]> {
+    const template = this.getStore().templates[level];
+    return template ? parseTemplateActions(template) : [];
+  }
+
+  private async describeAll(policyIds: string[]): Promise<PolicyDescription[]> {
+    const described = await Promise.all(policyIds.map((id) => this.describePolicy(id)));
+    return described.filter((d): d is PolicyDescription => d !== null);
+  }
+
+  private getStore(): LocalPolicyStore {
+    if (!this.store) {
+      this.store = this.loadStore();
+    }
+    return this.store;
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create the catalog that matches the authorization engine in use, so policy
+ * IDs in decisions resolve against the same policy set that produced them.
+ */
+export function createPolicyCatalog(engineType: AuthorizationEngineType): IPolicyCatalog {
+  return engineType === "embedded"
+    ? new LocalPolicyCatalog()
+    : new AvpPolicyCatalog(process.env.POLICY_STORE_ID!);
+}
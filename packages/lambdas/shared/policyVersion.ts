@@ -0,0 +1,102 @@
+/**
+ * Policy Version - A counter that changes whenever the policy set changes.
+ *
+ * permissions-api bumps it after every CreatePolicy / DeletePolicy, and
+ * authorize-api compares it before trusting cached decisions. Lambdas don't
+ * share memory, so the counter lives in DynamoDB (POLICY_VERSION_TABLE);
+ * without a table it falls back to an in-process counter, which is enough for
+ * the embedded engine and local runs.
+ */
+
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+
+// =============================================================================
+// POLICY VERSION STORE INTERFACE
+// =============================================================================
+
+export interface IPolicyVersionStore {
+  /**
+   * Current policy set version.
+   */
+  getVersion(): Promise<number>;
+
+  /**
+   * Record a policy change. Returns the new version.
+   */
+  bump(): Promise<number>;
+}
+
+// =============================================================================
+// DYNAMODB POLICY VERSION STORE
+// =============================================================================
+
+const VERSION_KEY = "policy-version";
+
+export class DynamoPolicyVersionStore implements IPolicyVersionStore {
+  /**
+   * @param tableName - Table holding the counter item
+   * @param client - DynamoDB client
+   * @param key - pk of the counter item, for tables that keep other counters or data
+   */
+  constructor(
+    private tableName: string,
+    private client: DynamoDBClient = new DynamoDBClient({}),
+    private key: string = VERSION_KEY
+  ) {}
+
+  async getVersion(): Promise<number> {
+    const result = await this.client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { pk: { S: this.key } },
+        ConsistentRead: true,
+      })
+    );
+    return Number(result.Item?.version?.N ?? 0);
+  }
+
+  async bump(): Promise<number> {
+    // Atomic counter: concurrent bumps never collapse into one version
+    const result = await this.client.send(
+      new UpdateItemCommand({
+        TableName: this.tableName,
+        Key: { pk: { S: this.key } },
+        UpdateExpression: "ADD version :one SET updatedAt = :now",
+        ExpressionAttributeValues: {
+          ":one": { N: "1" },
+          ":now": { S: new Date().toISOString() },
+        },
+        ReturnValues: "UPDATED_NEW",
+      })
+    );
+    return Number(result.Attributes?.version?.N ?? 0);
+  }
+}
+
+// =============================================================================
+// IN-MEMORY POLICY VERSION STORE (embedded engine / local runs)
+// =============================================================================
+
+export class InMemoryPolicyVersionStore implements IPolicyVersionStore {
+  private version = 0;
+
+  async getVersion(): Promise<number> {
+    return this.version;
+  }
+
+  async bump(): Promise<number> {
+    return ++this.version;
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const policyVersionStore: IPolicyVersionStore = process.env.POLICY_VERSION_TABLE
+  ? new DynamoPolicyVersionStore(process.env.POLICY_VERSION_TABLE)
+  : new InMemoryPolicyVersionStore();
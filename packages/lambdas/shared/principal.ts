@@ -0,0 +1,181 @@
+/**
+ * Principal Resolution - Decides which user an authorization request is for.
+ *
+ * With token verification configured (JWKS_URL or JWKS_JSON):
+ *   - Authorization: Bearer <jwt>  → the principal comes from the verified claims
+ *   - X-Service-Key: <key>         → trusted service callers may name any userId in the body
+ *   - anything else                → 401
+ *
+ * Without it, the body userId is used as-is (POC / playground mode).
+ *
+ * Token claims are also exposed as User attributes (email, emailDomain) so
+ * policies can use them, e.g. `principal.emailDomain == "cascadeenergy.com"`.
+ *
+ * Configuration:
+ *   JWKS_URL / JWKS_JSON  - provider key set URL, or an inline JWKS document
+ *   JWT_ISSUER            - required `iss`
+ *   JWT_AUDIENCE          - accepted `aud` / `client_id` values (comma-separated)
+ *   JWT_USER_ID_CLAIM     - claim holding the Gazebo user ID (default "email", falls back to "sub")
+ *   TRUSTED_SERVICE_KEYS  - comma-separated keys accepted in X-Service-Key
+ */
+
+import { timingSafeEqual } from "crypto";
+import {
+  IKeySet,
+  JwtClaims,
+  JwtVerifyOptions,
+  RemoteKeySet,
+  StaticKeySet,
+  TokenVerificationError,
+  verifyJwt,
+} from "./jwt";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ResolvedPrincipal {
+  userId: string;
+  /** User entity attributes derived from token claims */
+  attributes: Record<string, string>;
+  /** From the token's `amr` claim; undefined when the token doesn't say */
+  mfaAuthenticated?: boolean;
+}
+
+export interface PrincipalResolverConfig {
+  keySet: IKeySet | null;
+  verifyOptions: JwtVerifyOptions;
+  userIdClaim: string;
+  trustedServiceKeys: string[];
+}
+
+/**
+ * Raised when the caller can't be identified or may not act for the requested user.
+ * Carries the HTTP status the API should return (401 or 403).
+ */
+export class PrincipalResolutionError extends Error {
+  constructor(
+    public readonly statusCode: 401 | 403,
+    message: string
+  ) {
+    super(message);
+    this.name = "PrincipalResolutionError";
+  }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+export function loadPrincipalResolverConfig(env: NodeJS.ProcessEnv = process.env): PrincipalResolverConfig {
+  let keySet: IKeySet | null = null;
+  if (env.JWKS_JSON) {
+    keySet = new StaticKeySet(JSON.parse(env.JWKS_JSON));
+  } else if (env.JWKS_URL) {
+    keySet = new RemoteKeySet(env.JWKS_URL);
+  }
+
+  return {
+    keySet,
+    verifyOptions: {
+      issuer: env.JWT_ISSUER || undefined,
+      audience: splitList(env.JWT_AUDIENCE),
+    },
+    userIdClaim: env.JWT_USER_ID_CLAIM || "email",
+    trustedServiceKeys: splitList(env.TRUSTED_SERVICE_KEYS),
+  };
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+function isTrustedServiceKey(key: string | undefined, trusted: string[]): boolean {
+  if (!key) return false;
+  const given = Buffer.from(key);
+  return trusted.some((t) => {
+    const expected = Buffer.from(t);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+}
+
+/**
+ * User attributes derived from token claims.
+ */
+export function claimsToAttributes(claims: JwtClaims): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  if (typeof claims.email === "string" && claims.email) {
+    attributes.email = claims.email;
+    const domain = claims.email.split("@")[1];
+    if (domain) attributes.emailDomain = domain.toLowerCase();
+  }
+  return attributes;
+}
+
+export class PrincipalResolver {
+  constructor(private config: PrincipalResolverConfig = loadPrincipalResolverConfig()) {}
+
+  /** Whether bearer tokens are verified (otherwise body userIds are trusted) */
+  get enforcing(): boolean {
+    return this.config.keySet !== null;
+  }
+
+  /**
+   * Resolve the principal for a request.
+   *
+   * Returns the token principal, or null when the caller may use the body
+   * userIds as given (trusted service, or verification not configured).
+   *
+   * @param headers - Request headers (lower-cased, as API Gateway HTTP APIs deliver them)
+   * @param bodyUserIds - userIds named in the body (one per batch item); empty entries are ignored
+   * @throws PrincipalResolutionError (401/403)
+   */
+  async resolve(
+    headers: Record<string, string | undefined> = {},
+    bodyUserIds: Array<string | undefined> = []
+  ): Promise<ResolvedPrincipal | null> {
+    const named = Array.from(new Set(bodyUserIds.filter((id): id is string => !!id)));
+    const authorization = headers.authorization;
+
+    if (authorization?.startsWith("Bearer ") && this.config.keySet) {
+      let claims: JwtClaims;
+      try {
+        claims = await verifyJwt(authorization.slice(7).trim(), this.config.keySet, this.config.verifyOptions);
+      } catch (error) {
+        if (error instanceof TokenVerificationError) {
+          throw new PrincipalResolutionError(401, error.message);
+        }
+        throw error;
+      }
+
+      const claim = claims[this.config.userIdClaim] ?? claims.sub;
+      if (typeof claim !== "string" || !claim) {
+        throw new PrincipalResolutionError(401, `Token has no ${this.config.userIdClaim} or sub claim`);
+      }
+
+      const mismatched = named.find((id) => id !== claim);
+      if (mismatched) {
+        throw new PrincipalResolutionError(403, `Token principal cannot request decisions for ${mismatched}`);
+      }
+      return {
+        userId: claim,
+        attributes: claimsToAttributes(claims),
+        mfaAuthenticated: Array.isArray(claims.amr) ? claims.amr.includes("mfa") : undefined,
+      };
+    }
+
+    // POC / playground mode (no verification configured) or a trusted service
+    if (!this.enforcing || isTrustedServiceKey(headers["x-service-key"], this.config.trustedServiceKeys)) {
+      return null;
+    }
+
+    throw new PrincipalResolutionError(401, "Bearer token required");
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Request Context - Builds the Cedar `context` for an authorization request.
+ *
+ * Declared in schema.json as the RequestContext common type and attached to
+ * every action, so policies can use:
+ *   context.requestTime       Long    epoch seconds
+ *   context.sourceIp          ipaddr  caller address
+ *   context.mfaAuthenticated  Boolean
+ *   context.clientApp         String
+ *
+ * e.g.  forbid (principal, action == Gazebo::Action::"Delete", resource)
+ *       unless { context has mfaAuthenticated && context.mfaAuthenticated };
+ *
+ * All attributes are optional, so policies should guard with `context has`.
+ */
+
+import { AttributeValue } from "@aws-sdk/client-verifiedpermissions";
+import { RequestContext } from "./types";
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Convert a RequestContext into the AVP context map format.
+ */
+export function toContextMap(context: RequestContext): Record<string, AttributeValue> {
+  const map: Record<string, AttributeValue> = {};
+
+  if (context.requestTime !== undefined) {
+    map.requestTime = { long: Math.floor(Date.parse(context.requestTime) / 1000) };
+  }
+  if (context.sourceIp !== undefined) {
+    map.sourceIp = { ipaddr: context.sourceIp };
+  }
+  if (context.mfaAuthenticated !== undefined) {
+    map.mfaAuthenticated = { boolean: context.mfaAuthenticated };
+  }
+  if (context.clientApp !== undefined) {
+    map.clientApp = { string: context.clientApp };
+  }
+
+  return map;
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+export interface RequestContextSources {
+  /** Context from the request body */
+  body?: RequestContext;
+  /** Whether the caller may assert context values (trusted service / POC mode) */
+  trusted: boolean;
+  /** Caller address as seen by API Gateway */
+  sourceIp?: string;
+  /** MFA status from a verified token, when known */
+  mfaAuthenticated?: boolean;
+  now?: Date;
+}
+
+/**
+ * Resolve the context an API request is evaluated with.
+ *
+ * Trusted callers evaluate on behalf of someone else, so their body values are
+ * used as given. For everyone else only clientApp is taken from the body;
+ * time, address and MFA come from the server, API Gateway and the token.
+ *
+ * requestTime defaults to the current minute, so identical requests within a
+ * minute still share a decision cache entry.
+ */
+export function resolveRequestContext(sources: RequestContextSources): RequestContext {
+  const body = sources.body || {};
+  const now = new Date(sources.now ?? Date.now());
+  now.setUTCSeconds(0, 0);
+
+  const context: RequestContext = sources.trusted ? { ...body } : { clientApp: body.clientApp };
+
+  context.requestTime ??= now.toISOString();
+  context.sourceIp ??= sources.sourceIp;
+  if (sources.mfaAuthenticated !== undefined) {
+    context.mfaAuthenticated = sources.mfaAuthenticated;
+  }
+
+  for (const key of Object.keys(context) as Array<keyof RequestContext>) {
+    if (context[key] === undefined) delete context[key];
+  }
+  return context;
+}
@@ -0,0 +1,170 @@
+/**
+ * Resource Filtering - Drops the resources a user may not act on.
+ *
+ * List screens send one user, one action and a page of resources of one type.
+ * Every resource is resolved with buildEntities, but resources on the same
+ * site (or in the same cohort, ...) share its hierarchy, so each distinct
+ * chain is looked up only once per call (RequestHierarchyResolver), with at
+ * most RESOLVE_CONCURRENCY resources resolving at a time. The checks
+ * all share a principal, so they chunk cleanly into BatchIsAuthorized calls of 30.
+ *
+ * Filtering fails closed: a resource that is invalid (including parents that
+ * conflict with the resource registry or with another resource in the list),
+ * whose hierarchy can't be resolved, or whose chunk fails is left out of
+ * `permitted` and listed in `failed` instead.
+ */
+
+import { AuthRequest, BatchItemError, FilterRequest } from "./types";
+import { buildEntities, BuildEntitiesOptions } from "./entities";
+import { HierarchyLookupError, IHierarchyService, hierarchyService } from "./hierarchyService";
+import { conflictIssues, findEntityConflicts, RequestHierarchyResolver } from "./hierarchyResolver";
+import { IAuthorizationEngine, toAuthorizationQuery } from "./authorizationEngine";
+import { authorizeInChunks, BatchItem, RESOLVE_CONCURRENCY, runWithConcurrency } from "./batching";
+import { validateAuthRequest } from "./validation";
+import { ResourceRegistryError } from "./resourceRegistry";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FilterFailure {
+  resourceId: string;
+  error: BatchItemError;
+}
+
+export interface FilterResult {
+  permitted: string[];
+  failed: FilterFailure[];
+  summary: {
+    total: number;
+    permitted: number;
+    denied: number;
+    failed: number;
+    /** Distinct hierarchy chains looked up for this call */
+    hierarchyLookups: number;
+  };
+}
+
+// =============================================================================
+// FILTERING
+// =============================================================================
+
+/**
+ * Expand a filter request into one AuthRequest per resource (in list order).
+ */
+export function toAuthRequests(req: FilterRequest): AuthRequest[] {
+  return req.resources.map((resource) => ({
+    ...resource,
+    userId: req.userId,
+    action: req.action,
+    resourceType: req.resourceType,
+    context: req.context,
+  }));
+}
+
+/**
+ * Evaluate a filter request. `permitted` keeps the order of `req.resources`.
+ *
+ * @param engine - Engine to evaluate with
+ * @param req - User, action, resource type and resources (assumed to have a resources array)
+ * @param hierarchy - Hierarchy service behind the per-call lookups
+ * @param entityOptions - Passed to buildEntities (e.g. principal attributes)
+ */
+export async function filterResources(
+  engine: IAuthorizationEngine,
+  req: FilterRequest,
+  hierarchy: IHierarchyService = hierarchyService,
+  entityOptions: Omit<BuildEntitiesOptions, "onHierarchyError"> = {}
+): Promise<FilterResult> {
+  const requests = toAuthRequests(req);
+  const resolver = new RequestHierarchyResolver(hierarchy);
+  const failures = new Map<number, BatchItemError>();
+  const items: BatchItem[] = [];
+  const itemIndexes: number[] = [];
+
+  await runWithConcurrency(
+    requests.map((authReq, i) => async () => {
+      const issues = validateAuthRequest(authReq, `resources[${i}]`);
+      if (issues.length > 0) {
+        failures.set(i, { code: "INVALID_REQUEST", message: "Invalid resource", issues });
+        return;
+      }
+
+      try {
+        const entities = await buildEntities(authReq, resolver, {
+          ...entityOptions,
+          onHierarchyError: "throw",
+        });
+        items[i] = { query: toAuthorizationQuery(authReq), entities };
+      } catch (error) {
+        if (error instanceof ResourceRegistryError) {
+          failures.set(i, {
+            code: "INVALID_REQUEST",
+            message: error.message,
+            issues: error.issues.map((issue) => ({ ...issue, field: `resources[${i}].${issue.field}` })),
+          });
+          return;
+        }
+        failures.set(i, {
+          code: error instanceof HierarchyLookupError ? "HIERARCHY_LOOKUP_FAILED" : "EVALUATION_FAILED",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }),
+    RESOLVE_CONCURRENCY
+  );
+
+  // The same resource listed twice with different parents can't be evaluated
+  const conflicts = findEntityConflicts(items.map((item) => item?.entities));
+  for (const [i, entityConflicts] of conflicts) {
+    failures.set(i, {
+      code: "INVALID_REQUEST",
+      message: "Conflicts with other resources in the list",
+      issues: conflictIssues(entityConflicts, (j) => `resources[${j}]`, i),
+    });
+  }
+
+  // Compact to the resources that resolved, keeping list order
+  const evaluated: BatchItem[] = [];
+  items.forEach((item, i) => {
+    if (item && !conflicts.has(i)) {
+      evaluated.push(item);
+      itemIndexes.push(i);
+    }
+  });
+
+  const outcomes = await authorizeInChunks(engine, evaluated);
+
+  const permitted: string[] = [];
+  let denied = 0;
+  outcomes.forEach((outcome, j) => {
+    const index = itemIndexes[j];
+    if (outcome.status === "rejected") {
+      console.error("Filter chunk failed:", outcome.reason);
+      failures.set(index, {
+        code: "EVALUATION_FAILED",
+        message: outcome.reason?.message || String(outcome.reason),
+      });
+    } else if (outcome.value.allowed) {
+      permitted.push(requests[index].resourceId);
+    } else {
+      denied++;
+    }
+  });
+
+  const failed = Array.from(failures.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([i, error]) => ({ resourceId: requests[i].resourceId, error }));
+
+  return {
+    permitted,
+    failed,
+    summary: {
+      total: requests.length,
+      permitted: permitted.length,
+      denied,
+      failed: failed.length,
+      hierarchyLookups: resolver.lookups,
+    },
+  };
+}
@@ -0,0 +1,331 @@
+/**
+ * Resource Registry - Server-side record of where resources live and who created them.
+ *
+ * Callers used to assert `resourceParentSite`, `resourceParents` and
+ * `resourceCreatedBy` in the request body, so anyone could claim a Project
+ * belongs to a site they administer (or that they created it). For registered
+ * resource types (Project, Model, Module, Claim) buildEntities now takes these
+ * from the registry by resource ID instead.
+ *
+ * Client-supplied values that disagree with the registry are handled per
+ * RESOURCE_CONFLICT_MODE:
+ *   "reject" (default) - the request fails with ResourceRegistryError (400)
+ *   "ignore"           - the registered values are used and the conflict is logged
+ *
+ * Resources of these types that aren't registered are handled per
+ * RESOURCE_REGISTRY_UNREGISTERED:
+ *   "ignore" (default) - client parents and creator are dropped: the resource
+ *                        has no ancestors, so no role assignment reaches it
+ *   "reject"           - the request fails with ResourceRegistryError (400)
+ *   "trust"            - the client's values are used (playground only: this
+ *                        is the spoofing the registry exists to stop)
+ *
+ * The registry lives in DynamoDB (RESOURCE_REGISTRY_TABLE); without a table it
+ * falls back to an in-memory registry seeded with MOCK_RESOURCES. Owning
+ * services register resources as they create them (see
+ * authorizer/echoBackend.ts); resource-loader seeds the table with MOCK_RESOURCES.
+ */
+
+import {
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import { AuthRequest, ResourceParents, ResourceType, ValidationIssue } from "./types";
+import { MOCK_RESOURCES, RegisteredResource } from "./mockData";
+import { EntityAttributes } from "./entityAttributes";
+import { metrics } from "./metrics";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ResourceConflictMode = "reject" | "ignore";
+
+export type UnregisteredResourceMode = "ignore" | "reject" | "trust";
+
+export interface ResolvedResource {
+  /** The request with registered parents and creator in place of the client's */
+  request: AuthRequest;
+  /** Registered attribute values for the resource entity (empty when unregistered) */
+  attributes: EntityAttributes;
+}
+
+// Leaf resources whose parents and creator come from the registry. Hierarchy
+// types (Site, Cohort, ...) are resolved by IHierarchyService instead.
+export const REGISTERED_RESOURCE_TYPES: ResourceType[] = ["Project", "Model", "Module", "Claim"];
+
+/**
+ * Raised when a request's parents or creator disagree with the registry, or
+ * name an unregistered resource while unregistered resources are rejected.
+ * buildEntities also raises it when the parents of a hierarchy entity (Site,
+ * Cohort, ...) disagree with the hierarchy.
+ */
+export class ResourceRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = "ResourceRegistryError";
+  }
+}
+
+// =============================================================================
+// RESOURCE REGISTRY INTERFACE
+// =============================================================================
+
+export interface IResourceRegistry {
+  /**
+   * The registered record for a resource, or null when it isn't registered.
+   */
+  getResource(resourceType: ResourceType, resourceId: string): Promise<RegisteredResource | null>;
+
+  /**
+   * Register a resource (or replace its record).
+   */
+  putResource(resource: RegisteredResource): Promise<void>;
+
+  /**
+   * Remove a resource from the registry.
+   */
+  deleteResource(resourceType: ResourceType, resourceId: string): Promise<void>;
+}
+
+function resourceKey(resourceType: string, resourceId: string): string {
+  return `${resourceType}#${resourceId}`;
+}
+
+// =============================================================================
+// DYNAMODB RESOURCE REGISTRY
+// =============================================================================
+
+/**
+ * Items are keyed by pk = "<resourceType>#<resourceId>", with `parents` stored
+ * as a map of parent field → ID, an optional `createdBy` and `attributes` as a
+ * JSON string (converted against the schema when entities are built).
+ */
+export class DynamoResourceRegistry implements IResourceRegistry {
+  constructor(
+    private tableName: string,
+    private client: DynamoDBClient = new DynamoDBClient({})
+  ) {}
+
+  async getResource(resourceType: ResourceType, resourceId: string): Promise<RegisteredResource | null> {
+    const result = await this.client.send(
+      new GetItemCommand({
+        TableName: this.tableName,
+        Key: { pk: { S: resourceKey(resourceType, resourceId) } },
+      })
+    );
+    if (!result.Item) return null;
+
+    const parents: ResourceParents = {};
+    for (const [key, value] of Object.entries(result.Item.parents?.M || {})) {
+      if (value.S) parents[key as keyof ResourceParents] = value.S;
+    }
+
+    return {
+      resourceType,
+      resourceId,
+      parents,
+      createdBy: result.Item.createdBy?.S,
+      attributes: result.Item.attributes?.S ? JSON.parse(result.Item.attributes.S) : undefined,
+    };
+  }
+
+  async putResource(resource: RegisteredResource): Promise<void> {
+    const parents = Object.fromEntries(
+      Object.entries(resource.parents)
+        .filter(([, value]) => !!value)
+        .map(([key, value]) => [key, { S: value as string }])
+    );
+
+    await this.client.send(
+      new PutItemCommand({
+        TableName: this.tableName,
+        Item: {
+          pk: { S: resourceKey(resource.resourceType, resource.resourceId) },
+          resourceType: { S: resource.resourceType },
+          resourceId: { S: resource.resourceId },
+          parents: { M: parents },
+          ...(resource.createdBy ? { createdBy: { S: resource.createdBy } } : {}),
+          ...(resource.attributes ? { attributes: { S: JSON.stringify(resource.attributes) } } : {}),
+          updatedAt: { S: new Date().toISOString() },
+        },
+      })
+    );
+  }
+
+  async deleteResource(resourceType: ResourceType, resourceId: string): Promise<void> {
+    await this.client.send(
+      new DeleteItemCommand({
+        TableName: this.tableName,
+        Key: { pk: { S: resourceKey(resourceType, resourceId) } },
+      })
+    );
+  }
+}
+
+// =============================================================================
+// IN-MEMORY RESOURCE REGISTRY (mock data / local runs)
+// =============================================================================
+
+export class InMemoryResourceRegistry implements IResourceRegistry {
+  private resources = new Map<string, RegisteredResource>();
+
+  constructor(resources: RegisteredResource[] = MOCK_RESOURCES) {
+    for (const resource of resources) {
+      this.resources.set(resourceKey(resource.resourceType, resource.resourceId), resource);
+    }
+  }
+
+  async getResource(resourceType: ResourceType, resourceId: string): Promise<RegisteredResource | null> {
+    return this.resources.get(resourceKey(resourceType, resourceId)) ?? null;
+  }
+
+  async putResource(resource: RegisteredResource): Promise<void> {
+    this.resources.set(resourceKey(resource.resourceType, resource.resourceId), resource);
+  }
+
+  async deleteResource(resourceType: ResourceType, resourceId: string): Promise<void> {
+    this.resources.delete(resourceKey(resourceType, resourceId));
+  }
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * Client-supplied parents / creator that disagree with the registered record.
+ * Omitted fields never conflict.
+ */
+function findConflicts(req: AuthRequest, resource: RegisteredResource): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const registered = (value: string | undefined) => value ?? "none";
+
+  if (req.resourceParentSite !== undefined && req.resourceParentSite !== resource.parents.site) {
+    issues.push({
+      field: "resourceParentSite",
+      message: `Does not match the registered site (${registered(resource.parents.site)})`,
+    });
+  }
+
+  for (const [key, value] of Object.entries(req.resourceParents || {})) {
+    const expected = resource.parents[key as keyof ResourceParents];
+    if (value !== undefined && value !== expected) {
+      issues.push({
+        field: `resourceParents.${key}`,
+        message: `Does not match the registered ${key} (${registered(expected)})`,
+      });
+    }
+  }
+
+  if (req.resourceCreatedBy !== undefined && req.resourceCreatedBy !== resource.createdBy) {
+    issues.push({
+      field: "resourceCreatedBy",
+      message: `Does not match the registered creator (${registered(resource.createdBy)})`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Replace a request's parents and creator with the registered ones, and
+ * return the resource's registered attributes.
+ *
+ * Requests for types that aren't registry-backed are returned unchanged.
+ *
+ * @param req - The authorization request
+ * @param registry - Registry to resolve from
+ * @param onConflict - Reject conflicting client values, or ignore them
+ * @param onUnregistered - Drop client values for resources with no record, reject them, or trust them
+ * @throws ResourceRegistryError
+ */
+export async function resolveRegisteredResource(
+  req: AuthRequest,
+  registry: IResourceRegistry = resourceRegistry,
+  onConflict: ResourceConflictMode = resourceConflictMode,
+  onUnregistered: UnregisteredResourceMode = unregisteredResourceMode
+): Promise<ResolvedResource> {
+  if (!REGISTERED_RESOURCE_TYPES.includes(req.resourceType)) {
+    return { request: req, attributes: {} };
+  }
+
+  const resource = await metrics.time("ResourceLookupDuration", () =>
+    registry.getResource(req.resourceType, req.resourceId)
+  );
+  if (!resource) {
+    if (onUnregistered === "reject") {
+      throw new ResourceRegistryError(`${req.resourceType} ${req.resourceId} is not registered`, [
+        { field: "resourceId", message: `No registered ${req.resourceType} with this ID` },
+      ]);
+    }
+    if (onUnregistered === "trust") {
+      return { request: req, attributes: {} };
+    }
+    // Nothing the client says about an unregistered resource can be checked
+    const { resourceParentSite, resourceParents, resourceCreatedBy, ...unclaimed } = req;
+    if (resourceParentSite !== undefined || resourceParents !== undefined || resourceCreatedBy !== undefined) {
+      console.warn(`Ignoring client parents and creator for unregistered ${req.resourceType} ${req.resourceId}`);
+    }
+    return { request: unclaimed, attributes: {} };
+  }
+
+  const conflicts = findConflicts(req, resource);
+  if (conflicts.length > 0) {
+    if (onConflict === "reject") {
+      throw new ResourceRegistryError(
+        `Request conflicts with the registered ${req.resourceType} ${req.resourceId}`,
+        conflicts
+      );
+    }
+    console.warn(
+      `Ignoring client values for ${req.resourceType} ${req.resourceId}:`,
+      conflicts.map((c) => c.field).join(", ")
+    );
+  }
+
+  // A site parent goes through resourceParentSite so the Region → Organization chain is resolved too
+  const { site, ...otherParents } = resource.parents;
+  return {
+    request: {
+      ...req,
+      resourceParentSite: site,
+      resourceParents: otherParents,
+      resourceCreatedBy: resource.createdBy,
+    },
+    attributes: resource.attributes || {},
+  };
+}
+
+// =============================================================================
+// CONFIGURATION / SINGLETON INSTANCE
+// =============================================================================
+
+function loadConflictMode(value: string | undefined): ResourceConflictMode {
+  const mode = (value || "reject").toLowerCase();
+  if (mode !== "reject" && mode !== "ignore") {
+    throw new Error(`Unknown RESOURCE_CONFLICT_MODE "${value}". Expected "reject" or "ignore".`);
+  }
+  return mode;
+}
+
+export const resourceConflictMode = loadConflictMode(process.env.RESOURCE_CONFLICT_MODE);
+
+function loadUnregisteredMode(value: string | undefined): UnregisteredResourceMode {
+  const mode = (value || "ignore").toLowerCase();
+  if (mode !== "ignore" && mode !== "reject" && mode !== "trust") {
+    throw new Error(`Unknown RESOURCE_REGISTRY_UNREGISTERED "${value}". Expected "ignore", "reject" or "trust".`);
+  }
+  return mode;
+}
+
+export const unregisteredResourceMode = loadUnregisteredMode(process.env.RESOURCE_REGISTRY_UNREGISTERED);
+
+export const resourceRegistry: IResourceRegistry = process.env.RESOURCE_REGISTRY_TABLE
+  ? new DynamoResourceRegistry(process.env.RESOURCE_REGISTRY_TABLE)
+  : new InMemoryResourceRegistry();
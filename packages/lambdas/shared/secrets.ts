@@ -0,0 +1,45 @@
+/**
+ * Secrets - Values read from AWS Secrets Manager at runtime.
+ *
+ * Credentials for other services (e.g. the hierarchy services' bearer token)
+ * are not passed in Lambda environment variables, where they would sit in
+ * plain text in the CloudFormation template and the function configuration.
+ * Functions get the secret's name instead and read the value on first use.
+ */
+
+import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+
+/**
+ * A secret string, cached per container and re-read after `cacheMs` so a
+ * rotated value is picked up. A failed read isn't cached.
+ */
+export class CachedSecret {
+  private value: Promise<string> | null = null;
+  private fetchedAt = 0;
+
+  constructor(
+    private secretId: string,
+    private client: SecretsManagerClient = new SecretsManagerClient({}),
+    private cacheMs: number = 5 * 60 * 1000
+  ) {}
+
+  get(): Promise<string> {
+    const now = Date.now();
+    if (!this.value || now - this.fetchedAt > this.cacheMs) {
+      this.fetchedAt = now;
+      this.value = this.read().catch((error) => {
+        this.value = null;
+        throw error;
+      });
+    }
+    return this.value;
+  }
+
+  private async read(): Promise<string> {
+    const result = await this.client.send(new GetSecretValueCommand({ SecretId: this.secretId }));
+    if (!result.SecretString) {
+      throw new Error(`Secret ${this.secretId} has no string value`);
+    }
+    return result.SecretString;
+  }
+}
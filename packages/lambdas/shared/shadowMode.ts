@@ -0,0 +1,308 @@
+/**
+ * Shadow Mode - Compares primary decisions with a second decision source.
+ *
+ * Used while migrating off the legacy permission-service/authorization-service.
+ * Every request is answered by the primary engine; the same request is also
+ * evaluated by a secondary source and any disagreement is recorded with the
+ * full request and entity list. Callers never see the secondary decision.
+ *
+ * Secondary sources (SHADOW_MODE):
+ *   "off"       (default) - no shadow evaluation
+ *   "embedded"            - local Cedar engine (when the primary is AVP)
+ *   "avp"                 - AVP (when the primary is embedded)
+ *   "legacy"              - legacy decision adapter at LEGACY_DECISION_URL
+ *
+ * The mismatch report (rates by action and resource type) tells us when
+ * cutover is safe.
+ */
+
+import { AuthRequest } from "./types";
+import {
+  AuthorizationEntities,
+  AuthorizationResult,
+  AvpAuthorizationEngine,
+  IAuthorizationEngine,
+  LocalCedarEngine,
+  toAuthorizationQuery,
+} from "./authorizationEngine";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ShadowDecision {
+  allowed: boolean;
+  decision?: string;
+  determiningPolicies?: Array<{ policyId: string }>;
+}
+
+export interface ShadowMismatch {
+  timestamp: string;
+  source: string;
+  request: AuthRequest;
+  entities: AuthorizationEntities["entityList"];
+  primary: ShadowDecision;
+  secondary: ShadowDecision;
+}
+
+export interface ShadowReportRow {
+  action: string;
+  resourceType: string;
+  compared: number;
+  mismatches: number;
+  errors: number;
+  mismatchRate: number;
+}
+
+export interface ShadowReport {
+  source: string;
+  since: string;
+  totals: Omit<ShadowReportRow, "action" | "resourceType">;
+  byActionAndResourceType: ShadowReportRow[];
+}
+
+// =============================================================================
+// DECISION SOURCES
+// =============================================================================
+
+export interface IShadowDecisionSource {
+  readonly name: string;
+
+  /**
+   * Decide the same request the primary engine answered.
+   * Sources that resolve hierarchy themselves may ignore the entity list.
+   */
+  decide(req: AuthRequest, entities: AuthorizationEntities): Promise<ShadowDecision>;
+}
+
+/**
+ * Uses another authorization engine (local Cedar or AVP) as the secondary source.
+ */
+export class EngineShadowSource implements IShadowDecisionSource {
+  readonly name: string;
+
+  constructor(private engine: IAuthorizationEngine) {
+    this.name = engine.type;
+  }
+
+  async decide(req: AuthRequest, entities: AuthorizationEntities): Promise<ShadowDecision> {
+    const result = await this.engine.isAuthorized(toAuthorizationQuery(req), entities);
+    return toShadowDecision(result);
+  }
+}
+
+/**
+ * Asks the legacy authorization-service for its decision.
+ *
+ * The legacy service answers with a permission bitmask, so it is fronted by a
+ * small shim that accepts an AuthRequest and returns { allowed: boolean }.
+ */
+export class HttpLegacyDecisionAdapter implements IShadowDecisionSource {
+  readonly name = "legacy";
+
+  constructor(
+    private url: string,
+    private timeoutMs: number = 2000
+  ) {}
+
+  async decide(req: AuthRequest): Promise<ShadowDecision> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(req),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Legacy decision request failed: HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as { allowed?: unknown };
+    if (typeof body.allowed !== "boolean") {
+      throw new Error("Legacy decision response is missing boolean 'allowed'");
+    }
+
+    return { allowed: body.allowed, decision: body.allowed ? "ALLOW" : "DENY" };
+  }
+}
+
+function toShadowDecision(result: AuthorizationResult): ShadowDecision {
+  return {
+    allowed: result.allowed,
+    decision: result.decision,
+    determiningPolicies: result.determiningPolicies,
+  };
+}
+
+// =============================================================================
+// MISMATCH SINKS
+// =============================================================================
+
+export interface IShadowMismatchSink {
+  record(mismatch: ShadowMismatch): void | Promise<void>;
+}
+
+/**
+ * Writes one JSON line per mismatch (queryable with CloudWatch Logs Insights).
+ */
+export class ConsoleMismatchSink implements IShadowMismatchSink {
+  record(mismatch: ShadowMismatch): void {
+    console.log(JSON.stringify({ type: "shadow-mismatch", ...mismatch }));
+  }
+}
+
+/**
+ * Keeps mismatches in memory (for local runs).
+ */
+export class InMemoryMismatchSink implements IShadowMismatchSink {
+  readonly mismatches: ShadowMismatch[] = [];
+
+  record(mismatch: ShadowMismatch): void {
+    this.mismatches.push(mismatch);
+  }
+}
+
+// =============================================================================
+// COMPARATOR
+// =============================================================================
+
+export class ShadowComparator {
+  private pending = new Set<Promise<void>>();
+  private stats = new Map<string, ShadowReportRow>();
+  private since = new Date().toISOString();
+
+  constructor(
+    private source: IShadowDecisionSource,
+    private sink: IShadowMismatchSink = new ConsoleMismatchSink()
+  ) {}
+
+  /**
+   * Start a shadow evaluation. Never throws and never changes the primary result.
+   * The secondary source runs concurrently with the primary engine.
+   */
+  compare(
+    req: AuthRequest,
+    entities: AuthorizationEntities,
+    primary: Promise<AuthorizationResult>
+  ): void {
+    const work = (async () => {
+      const row = this.getRow(req);
+      try {
+        const [primaryResult, secondary] = await Promise.all([
+          primary,
+          this.source.decide(req, entities),
+        ]);
+
+        row.compared++;
+        if (primaryResult.allowed !== secondary.allowed) {
+          row.mismatches++;
+          await this.sink.record({
+            timestamp: new Date().toISOString(),
+            source: this.source.name,
+            request: req,
+            entities: entities.entityList,
+            primary: toShadowDecision(primaryResult),
+            secondary,
+          });
+        }
+      } catch (error) {
+        row.errors++;
+        console.warn(`Shadow evaluation (${this.source.name}) failed:`, error);
+      }
+      row.mismatchRate = row.compared ? row.mismatches / row.compared : 0;
+    })();
+
+    this.pending.add(work);
+    work.finally(() => this.pending.delete(work));
+  }
+
+  /**
+   * Wait for in-flight shadow evaluations, up to timeoutMs.
+   * Lambda freezes the container once the handler returns; evaluations still
+   * running then resume (and are recorded) when the container is next invoked,
+   * so the handler only gives them a short head start.
+   */
+  async flush(timeoutMs: number): Promise<void> {
+    if (this.pending.size === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(Array.from(this.pending)),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Mismatch rates by action and resource type since this container started.
+   */
+  getReport(): ShadowReport {
+    const rows = Array.from(this.stats.values()).sort(
+      (a, b) => b.mismatchRate - a.mismatchRate || b.compared - a.compared
+    );
+
+    const compared = rows.reduce((sum, r) => sum + r.compared, 0);
+    const mismatches = rows.reduce((sum, r) => sum + r.mismatches, 0);
+    const errors = rows.reduce((sum, r) => sum + r.errors, 0);
+
+    return {
+      source: this.source.name,
+      since: this.since,
+      totals: {
+        compared,
+        mismatches,
+        errors,
+        mismatchRate: compared ? mismatches / compared : 0,
+      },
+      byActionAndResourceType: rows,
+    };
+  }
+
+  private getRow(req: AuthRequest): ShadowReportRow {
+    const key = `${req.action}:${req.resourceType}`;
+    let row = this.stats.get(key);
+    if (!row) {
+      row = {
+        action: req.action,
+        resourceType: req.resourceType,
+        compared: 0,
+        mismatches: 0,
+        errors: 0,
+        mismatchRate: 0,
+      };
+      this.stats.set(key, row);
+    }
+    return row;
+  }
+}
+
+// =============================================================================
+// FACTORY
+// =============================================================================
+
+/**
+ * Create the comparator selected by SHADOW_MODE, or null when shadow mode is off.
+ */
+export function createShadowComparator(
+  mode: string = process.env.SHADOW_MODE || "off"
+): ShadowComparator | null {
+  switch (mode) {
+    case "off":
+      return null;
+    case "embedded":
+      return new ShadowComparator(new EngineShadowSource(new LocalCedarEngine()));
+    case "avp":
+      return new ShadowComparator(
+        new EngineShadowSource(new AvpAuthorizationEngine(process.env.POLICY_STORE_ID!))
+      );
+    case "legacy":
+      if (!process.env.LEGACY_DECISION_URL) {
+        throw new Error("SHADOW_MODE=legacy requires LEGACY_DECISION_URL");
+      }
+      return new ShadowComparator(new HttpLegacyDecisionAdapter(process.env.LEGACY_DECISION_URL));
+    default:
+      throw new Error(`Unknown SHADOW_MODE: ${mode}. Expected "off", "embedded", "avp" or "legacy"`);
+  }
+}
@@ -39,6 +39,14 @@ export interface ResourceParents {
   client?: string;         // For Program
 }
 
+// Cedar request context (declared as RequestContext in schema.json)
+export interface RequestContext {
+  requestTime?: string;        // ISO 8601; sent to Cedar as epoch seconds
+  sourceIp?: string;           // IPv4/IPv6 address; sent as an ipaddr extension value
+  mfaAuthenticated?: boolean;
+  clientApp?: string;          // e.g. "gazebo-web", "gazebo-mobile"
+}
+
 export interface AuthRequest {
   userId: string;
   action: Action;
@@ -47,10 +55,44 @@ export interface AuthRequest {
   resourceCreatedBy?: string;
   resourceParentSite?: string;  // Legacy: kept for backwards compatibility
   resourceParents?: ResourceParents;  // New: flexible parent specification
+  context?: RequestContext;
+}
+
+// "What can this user do on this resource" - an AuthRequest without the action
+export type AllowedActionsRequest = Omit<AuthRequest, "action">;
+
+// One resource in a /authorize/filter list (type, user and action are shared)
+export interface FilterResource {
+  resourceId: string;
+  resourceCreatedBy?: string;
+  resourceParentSite?: string;
+  resourceParents?: ResourceParents;
+}
+
+// "Which of these resources can this user <action>" - for list/search screens
+export interface FilterRequest {
+  userId: string;
+  action: Action;
+  resourceType: ResourceType;
+  resources: FilterResource[];
+  context?: RequestContext;
 }
 
 export interface BatchAuthRequest {
   requests: AuthRequest[];
 }
 
+// A request field that failed validation (field is a path like "requests[3].action")
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+// Per-item failure in a batch response (returned in place of a decision)
+export interface BatchItemError {
+  code: "INVALID_REQUEST" | "HIERARCHY_LOOKUP_FAILED" | "EVALUATION_FAILED";
+  message: string;
+  issues?: ValidationIssue[];
+}
+
 export const PERMISSION_LEVELS: PermissionLevel[] = ["administrator", "coordinator", "facilitator", "contributor", "champion", "viewer"];
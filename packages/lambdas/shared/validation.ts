@@ -0,0 +1,315 @@
+/**
+ * Request Validation - Checks AuthRequests against authorization/schema.json.
+ *
+ * Catches malformed requests before they reach buildEntities or AVP:
+ *   - Required fields (userId, action, resourceType, resourceId)
+ *   - resourceType is an entity type declared in the schema
+ *   - action is declared in the schema and applies to that resource type
+ *   - resourceParents / resourceParentSite name types the resource is a memberOf
+ *   - resourceCreatedBy is only given for types with a createdBy attribute
+ *   - context matches the RequestContext type
+ *
+ * Issues carry a field path ("action", "requests[3].resourceType") so callers
+ * can point at exactly what is wrong.
+ */
+
+import { isIP } from "net";
+import schema from "../../../authorization/schema.json";
+import { Action, ResourceParents, ValidationIssue } from "./types";
+import { PARENT_TYPE_MAP } from "./entities";
+import { getEntityAttributeTypes } from "./entityAttributes";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SchemaAction {
+  appliesTo?: { principalTypes?: string[]; resourceTypes?: string[] };
+}
+
+interface SchemaEntityType {
+  memberOfTypes?: string[];
+}
+
+/**
+ * Raised for a request body that is valid JSON but not an object (`null`, an array, ...).
+ */
+export class RequestBodyError extends Error {
+  readonly issues: ValidationIssue[] = [{ field: "body", message: "Expected a JSON object" }];
+
+  constructor() {
+    super("Invalid request");
+    this.name = "RequestBodyError";
+  }
+}
+
+// =============================================================================
+// SCHEMA LOOKUPS
+// =============================================================================
+
+const NAMESPACE = schema.Gazebo;
+const ENTITY_TYPES = Object.keys(NAMESPACE.entityTypes);
+const ACTIONS = NAMESPACE.actions as Record<string, SchemaAction>;
+const PARENT_KEYS = Object.keys(PARENT_TYPE_MAP) as Array<keyof ResourceParents>;
+
+/**
+ * Resource types an action applies to (empty if the action is unknown).
+ */
+export function getActionResourceTypes(action: string): string[] {
+  return ACTIONS[action]?.appliesTo?.resourceTypes || [];
+}
+
+/**
+ * Actions that apply to a resource type, in schema order.
+ */
+export function getActionsForResourceType(resourceType: string): Action[] {
+  return Object.keys(ACTIONS).filter((action) =>
+    getActionResourceTypes(action).includes(resourceType)
+  ) as Action[];
+}
+
+/**
+ * Entity types a resource type may have as parents (its schema memberOfTypes).
+ */
+export function getParentTypes(resourceType: string): string[] {
+  const entityType = (NAMESPACE.entityTypes as Record<string, SchemaEntityType>)[resourceType];
+  return entityType?.memberOfTypes || [];
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+const CONTEXT_FIELDS = Object.keys(NAMESPACE.commonTypes.RequestContext.attributes);
+
+/**
+ * Validate an optional request context against RequestContext.
+ *
+ * @param context - The `context` field of a request (undefined is valid)
+ * @param path - Field path of the context, e.g. "requests[3].context"
+ */
+export function validateRequestContext(context: unknown, path: string = "context"): ValidationIssue[] {
+  if (context === undefined) return [];
+  if (typeof context !== "object" || context === null || Array.isArray(context)) {
+    return [{ field: path, message: "Expected an object" }];
+  }
+
+  const ctx = context as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const key of Object.keys(ctx)) {
+    if (!CONTEXT_FIELDS.includes(key)) {
+      issues.push({
+        field: `${path}.${key}`,
+        message: `Unknown context field. Expected one of: ${CONTEXT_FIELDS.join(", ")}`,
+      });
+    }
+  }
+  if (ctx.requestTime !== undefined && (typeof ctx.requestTime !== "string" || isNaN(Date.parse(ctx.requestTime)))) {
+    issues.push({ field: `${path}.requestTime`, message: "Expected an ISO 8601 timestamp" });
+  }
+  if (ctx.sourceIp !== undefined && (typeof ctx.sourceIp !== "string" || isIP(ctx.sourceIp) === 0)) {
+    issues.push({ field: `${path}.sourceIp`, message: "Expected an IPv4 or IPv6 address" });
+  }
+  if (ctx.mfaAuthenticated !== undefined && typeof ctx.mfaAuthenticated !== "boolean") {
+    issues.push({ field: `${path}.mfaAuthenticated`, message: "Expected a boolean" });
+  }
+  if (ctx.clientApp !== undefined && !isNonEmptyString(ctx.clientApp)) {
+    issues.push({ field: `${path}.clientApp`, message: "Expected a non-empty string" });
+  }
+
+  return issues;
+}
+
+/**
+ * Check the fields shared by every request shape. Only the `required` fields
+ * must be present; the others are checked when given.
+ */
+function validateRequestFields(req: unknown, path: string, required: string[]): ValidationIssue[] {
+  const field = (name: string) => (path ? `${path}.${name}` : name);
+
+  if (typeof req !== "object" || req === null || Array.isArray(req)) {
+    return [{ field: path || "body", message: "Expected an object" }];
+  }
+
+  const body = req as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+
+  for (const name of required) {
+    if (!isNonEmptyString(body[name])) {
+      issues.push({ field: field(name), message: "Required non-empty string" });
+    }
+  }
+
+  const { action, resourceType } = body;
+  const knownResourceType = isNonEmptyString(resourceType) && ENTITY_TYPES.includes(resourceType);
+
+  if (isNonEmptyString(resourceType) && !knownResourceType) {
+    issues.push({
+      field: field("resourceType"),
+      message: `Unknown resource type "${resourceType}". Expected one of: ${ENTITY_TYPES.join(", ")}`,
+    });
+  }
+
+  if (action !== undefined && !required.includes("action") && !isNonEmptyString(action)) {
+    issues.push({ field: field("action"), message: "Expected a non-empty string" });
+  } else if (isNonEmptyString(action) && !ACTIONS[action]) {
+    issues.push({
+      field: field("action"),
+      message: `Unknown action "${action}". Expected one of: ${Object.keys(ACTIONS).join(", ")}`,
+    });
+  } else if (isNonEmptyString(action) && knownResourceType && !getActionResourceTypes(action).includes(resourceType)) {
+    issues.push({
+      field: field("action"),
+      message: `Action "${action}" does not apply to ${resourceType}. Valid actions: ${
+        getActionsForResourceType(resourceType).join(", ") || "none"
+      }`,
+    });
+  }
+
+  for (const name of ["userId", "resourceId", "resourceCreatedBy", "resourceParentSite"]) {
+    if (!required.includes(name) && body[name] !== undefined && !isNonEmptyString(body[name])) {
+      issues.push({ field: field(name), message: "Expected a non-empty string" });
+    }
+  }
+
+  // A Site resource resolves its own hierarchy, so resourceParentSite is ignored there
+  if (
+    isNonEmptyString(body.resourceParentSite) &&
+    knownResourceType &&
+    resourceType !== "Site" &&
+    !getParentTypes(resourceType).includes("Site")
+  ) {
+    issues.push({
+      field: field("resourceParentSite"),
+      message: `${resourceType} cannot belong to a Site. Valid parents: ${formatParentKeys(resourceType)}`,
+    });
+  }
+
+  if (
+    isNonEmptyString(body.resourceCreatedBy) &&
+    knownResourceType &&
+    !getEntityAttributeTypes(resourceType).createdBy
+  ) {
+    issues.push({ field: field("resourceCreatedBy"), message: `${resourceType} has no createdBy attribute` });
+  }
+
+  issues.push(
+    ...validateResourceParents(body.resourceParents, knownResourceType ? resourceType : undefined, field("resourceParents"))
+  );
+  issues.push(...validateRequestContext(body.context, field("context")));
+
+  return issues;
+}
+
+function formatParentKeys(resourceType: string): string {
+  const parentTypes = getParentTypes(resourceType);
+  const keys = PARENT_KEYS.filter((key) => parentTypes.includes(PARENT_TYPE_MAP[key]));
+  return keys.join(", ") || "none";
+}
+
+/**
+ * Validate resourceParents: known keys, string values, and parent types the
+ * resource type is declared a member of in the schema.
+ *
+ * @param parents - The `resourceParents` field (undefined is valid)
+ * @param resourceType - A known resource type, or undefined to skip the memberOfTypes check
+ * @param path - Field path of resourceParents
+ */
+export function validateResourceParents(
+  parents: unknown,
+  resourceType: string | undefined,
+  path: string = "resourceParents"
+): ValidationIssue[] {
+  if (parents === undefined) return [];
+  if (typeof parents !== "object" || parents === null || Array.isArray(parents)) {
+    return [{ field: path, message: "Expected an object" }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const parentTypes = resourceType ? getParentTypes(resourceType) : [];
+
+  for (const [key, value] of Object.entries(parents)) {
+    const parentType = PARENT_TYPE_MAP[key as keyof ResourceParents];
+    if (!parentType) {
+      issues.push({
+        field: `${path}.${key}`,
+        message: `Unknown parent "${key}". Expected one of: ${PARENT_KEYS.join(", ")}`,
+      });
+    } else if (value !== undefined && !isNonEmptyString(value)) {
+      issues.push({ field: `${path}.${key}`, message: "Expected a non-empty string" });
+    } else if (resourceType && !parentTypes.includes(parentType)) {
+      issues.push({
+        field: `${path}.${key}`,
+        message: `${parentType} is not a valid parent of ${resourceType}. Valid parents: ${formatParentKeys(resourceType)}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Parse a JSON request body that must be an object. A missing body is `{}`.
+ *
+ * @throws SyntaxError (invalid JSON), RequestBodyError (not an object)
+ */
+export function parseRequestBody<T>(body: string | undefined): T {
+  const parsed: unknown = JSON.parse(body || "{}");
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new RequestBodyError();
+  }
+  return parsed as T;
+}
+
+/**
+ * Validate one AuthRequest. Returns an empty array when the request is valid.
+ *
+ * @param req - Parsed request body (or batch item)
+ * @param path - Field path prefix, e.g. "requests[3]"
+ */
+export function validateAuthRequest(req: unknown, path: string = ""): ValidationIssue[] {
+  return validateRequestFields(req, path, ["userId", "action", "resourceType", "resourceId"]);
+}
+
+/**
+ * Validate an /authorize/actions request (an AuthRequest without the action).
+ */
+export function validateAllowedActionsRequest(req: unknown): ValidationIssue[] {
+  const issues = validateRequestFields(req, "", ["userId", "resourceType", "resourceId"]);
+  const resourceType = (req as Record<string, unknown> | null)?.resourceType;
+
+  if (
+    issues.length === 0 &&
+    isNonEmptyString(resourceType) &&
+    getActionsForResourceType(resourceType).length === 0
+  ) {
+    issues.push({ field: "resourceType", message: `No actions apply to resource type "${resourceType}"` });
+  }
+  return issues;
+}
+
+/**
+ * Validate an /authorize/filter request. Individual resources are validated
+ * per item by filterResources, so one bad resource doesn't reject the list.
+ */
+export function validateFilterRequest(req: unknown): ValidationIssue[] {
+  const issues = validateRequestFields(req, "", ["userId", "action", "resourceType"]);
+  const resources = (req as Record<string, unknown> | null)?.resources;
+
+  if (typeof req === "object" && req !== null && !Array.isArray(resources)) {
+    issues.push({ field: "resources", message: "Required array" });
+  }
+  return issues;
+}
+
+/**
+ * Validate an /authorize/access request (no user; the action is optional).
+ */
+export function validateAccessLookupRequest(req: unknown): ValidationIssue[] {
+  return validateRequestFields(req, "", ["resourceType", "resourceId"]);
+}